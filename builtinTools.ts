@@ -0,0 +1,107 @@
+import { z } from "zod";
+import {
+  viewFile,
+  editFile,
+  listDirectory,
+  writeFile,
+  runBash,
+  grepFiles,
+} from "./claudeTools.js";
+import { defineTool, type RegisteredTool } from "./toolRegistry.js";
+import { selectWorkspace } from "./workspaces.js";
+
+// The claude_* function tools o3 can call. Edits and writes go to the dry-run
+// overlay when there is one; views read from it first.
+export function createBuiltinTools(): RegisteredTool[] {
+  return [
+    defineTool({
+      name: "claude_view",
+      description:
+        "Read and display the contents of a file. Use this to examine existing files before making modifications.",
+      schema: z.object({
+        file_path: z
+          .string()
+          .describe("Absolute path to the file to read (e.g., '/Users/name/project/file.txt')"),
+      }),
+      execute: async ({ file_path }, { overlay, signal }) =>
+        overlay?.has(file_path) ? overlay.view(file_path) : viewFile(file_path, signal),
+    }),
+    defineTool({
+      name: "claude_edit",
+      description:
+        "Edit an existing file by replacing exact text strings. IMPORTANT: Read the file first with claude_view to see its current contents.",
+      mutating: true,
+      supportsDryRun: true,
+      schema: z.object({
+        file_path: z.string().describe("Absolute path to the file to edit"),
+        old_string: z
+          .string()
+          .describe("The exact text to find and replace (must match exactly, including whitespace)"),
+        new_string: z.string().describe("The replacement text"),
+      }),
+      execute: async ({ file_path, old_string, new_string }, { overlay, signal }) =>
+        overlay
+          ? overlay.edit(file_path, old_string, new_string)
+          : editFile(file_path, old_string, new_string, signal),
+    }),
+    defineTool({
+      name: "claude_ls",
+      description:
+        "List files and directories in the repository being discussed. Use this to explore the project structure.",
+      schema: z.object({
+        path: z
+          .string()
+          .optional()
+          .describe("Absolute path of the directory to list. Default: the root of the request's repository"),
+      }),
+      execute: async ({ path }, { workspaces, signal }) =>
+        listDirectory(path || selectWorkspace(workspaces), signal),
+    }),
+    defineTool({
+      name: "claude_write",
+      description:
+        "Create a new file or overwrite an existing one. The user will be asked to approve the change before it is written.",
+      mutating: true,
+      supportsDryRun: true,
+      schema: z.object({
+        file_path: z.string().describe("Absolute path where to create the new file"),
+        content: z.string().describe("Content to write to the file"),
+      }),
+      execute: async ({ file_path, content }, { overlay, signal }) =>
+        overlay ? overlay.write(file_path, content) : writeFile(file_path, content, signal),
+    }),
+    defineTool({
+      name: "claude_bash",
+      description:
+        "Execute a bash command. The user will be asked to approve the command before it runs.",
+      mutating: true,
+      supportsDryRun: false,
+      schema: z.object({
+        command: z
+          .string()
+          .describe("Bash command to execute (e.g., 'npm install', 'git status')"),
+      }),
+      execute: async ({ command }, { overlay, signal }) => {
+        if (overlay) {
+          throw new Error("claude_bash is not available in dry-run mode");
+        }
+        return runBash(command, signal);
+      },
+    }),
+    defineTool({
+      name: "claude_grep",
+      description: "Search for text patterns across files in the project. Uses regular expressions.",
+      schema: z.object({
+        pattern: z
+          .string()
+          .describe("Regular expression pattern to search for (e.g., 'function.*test', 'import.*react')"),
+        path: z
+          .string()
+          .optional()
+          .describe("Absolute path of the directory to search. Default: the root of the request's repository"),
+      }),
+      execute: async ({ pattern, path }, { workspaces, signal }) =>
+        grepFiles(pattern, path || selectWorkspace(workspaces), signal),
+    }),
+  ];
+}
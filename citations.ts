@@ -0,0 +1,98 @@
+// Source citations from o3's web search: the url_citation annotations on
+// output_text, numbered per answer and listed in a "Sources" section.
+
+export interface SourceCitation {
+  // 1-based number used in the answer's [n] markers
+  index: number;
+  url: string;
+  title?: string | undefined;
+  // Spans of the answer that cite this source
+  quotes: string[];
+}
+
+// Longest quoted span kept per citation
+const MAX_QUOTE_LENGTH = 300;
+
+// Strip the utm tracking OpenAI appends to cited URLs so repeat citations of
+// the same page share a number
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const key of Array.from(parsed.searchParams.keys())) {
+      if (key.startsWith("utm_")) parsed.searchParams.delete(key);
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+function quoteOf(text: string, start: unknown, end: unknown): string | null {
+  if (typeof start !== "number" || typeof end !== "number" || end <= start) {
+    return null;
+  }
+  let quote = text.slice(start, end).trim();
+  // o3 usually places the citation as an inline link after the claim, e.g.
+  // "... is deprecated. ([nodejs.org](https://...))"; quote the sentence before it
+  if (/^\(?\[[^\]]*\]\([^)]*\)\)?$/.test(quote)) {
+    const before = text.slice(0, start).trimEnd();
+    const sentenceStart = Math.max(
+      before.lastIndexOf("\n") + 1,
+      ...[". ", "! ", "? "].map((boundary) => {
+        const index = before.slice(0, -1).lastIndexOf(boundary);
+        return index === -1 ? 0 : index + 2;
+      })
+    );
+    quote = before.slice(sentenceStart).trim();
+  }
+  if (!quote) return null;
+  return quote.length > MAX_QUOTE_LENGTH ? `${quote.slice(0, MAX_QUOTE_LENGTH)}...` : quote;
+}
+
+// Collect the citations of one output_text item into `sources` and return
+// its text with [n] markers after each cited span
+export function annotateOutputText(contentItem: any, sources: SourceCitation[]): string {
+  const text: string = contentItem.text ?? "";
+  const citations = (contentItem.annotations ?? []).filter(
+    (annotation: any) => annotation?.type === "url_citation" && annotation.url
+  );
+
+  const markers: Array<{ position: number; index: number }> = [];
+  for (const citation of citations) {
+    const url = normalizeUrl(citation.url);
+    let source = sources.find((existing) => existing.url === url);
+    if (!source) {
+      const title: string | undefined = citation.title || undefined;
+      source = { index: sources.length + 1, url, ...(title && { title }), quotes: [] };
+      sources.push(source);
+    }
+
+    const quote = quoteOf(text, citation.start_index, citation.end_index);
+    if (quote && !source.quotes.includes(quote)) {
+      source.quotes.push(quote);
+    }
+    if (typeof citation.end_index === "number" && citation.end_index <= text.length) {
+      markers.push({ position: citation.end_index, index: source.index });
+    }
+  }
+
+  // Insert from the end so earlier positions stay valid
+  let annotated = text;
+  for (const marker of markers.sort((a, b) => b.position - a.position)) {
+    const label = `[${marker.index}]`;
+    if (annotated.slice(marker.position, marker.position + label.length) === label) {
+      continue;
+    }
+    annotated = `${annotated.slice(0, marker.position)}${label}${annotated.slice(marker.position)}`;
+  }
+  return annotated;
+}
+
+export function formatSources(sources: SourceCitation[]): string {
+  const lines = sources.map((source) => {
+    const link = `[${source.title || source.url}](${source.url})`;
+    const quotes = source.quotes.map((quote) => `\n   > ${quote.replace(/\n+/g, " ")}`).join("");
+    return `${source.index}. ${link}${quotes}`;
+  });
+  return `**Sources:**\n${lines.join("\n")}`;
+}
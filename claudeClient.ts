@@ -9,8 +9,60 @@ export interface ClaudeClientWrapper {
 
 let claudeClient: ClaudeClientWrapper | null = null;
 
-export async function createClaudeClient(): Promise<ClaudeClientWrapper> {
+// CLAUDE_MCP_COMMAND replaces `claude mcp serve` with another stdio MCP server
+// that provides the same tools (Read, Edit, LS, Write, Bash, Grep).
+// Accepts a JSON array or a space-separated command line.
+function parseCustomCommand(value: string | undefined): string[] | null {
+  if (!value || !value.trim()) return null;
+  const parts = value.trim().startsWith("[")
+    ? (JSON.parse(value) as string[])
+    : value.trim().split(/\s+/);
+  return parts.length > 0 ? parts : null;
+}
+
+// Connect, closing the transport, and with it the spawned server, when the
+// handshake fails or signal is aborted
+async function connectClient(
+  client: Client,
+  transport: StdioClientTransport,
+  signal?: AbortSignal
+): Promise<void> {
+  const close = () => {
+    void transport.close().catch(() => {});
+  };
+  signal?.addEventListener("abort", close, { once: true });
+  try {
+    signal?.throwIfAborted();
+    await client.connect(transport);
+  } catch (error) {
+    close();
+    throw error;
+  } finally {
+    signal?.removeEventListener("abort", close);
+  }
+}
+
+export async function createClaudeClient(signal?: AbortSignal): Promise<ClaudeClientWrapper> {
   try {
+    const customCommand = parseCustomCommand(process.env.CLAUDE_MCP_COMMAND);
+    if (customCommand) {
+      process.stderr.write(`[claude-code-tools] Using custom MCP command: ${customCommand.join(" ")}\n`);
+      const transport = new StdioClientTransport({
+        command: customCommand[0]!,
+        args: customCommand.slice(1),
+        env: { ...process.env } as Record<string, string>,
+      });
+      const client = new Client({
+        name: "o3-search-mcp",
+        version: "0.1.0",
+      });
+      await connectClient(client, transport, signal);
+      transport.onclose = () => {
+        claudeClient = null;
+      };
+      return { client, transport };
+    }
+
     // 1) ESM環境でClaude CLI絶対パスを取得
     const path = await import('path');
     const fs = await import('fs');
@@ -64,7 +116,7 @@ export async function createClaudeClient(): Promise<ClaudeClientWrapper> {
 
     // 3) ハンドシェイク
     try {
-      await client.connect(transport);
+      await connectClient(client, transport, signal);
     } catch (error) {
       process.stderr.write(`[claude-code-tools] Connection error: ${error}\n`);
       // Check if process exited
@@ -96,15 +148,35 @@ export async function createClaudeClient(): Promise<ClaudeClientWrapper> {
   }
 }
 
-export async function ensureClaudeClient(): Promise<ClaudeClientWrapper> {
-  if (!claudeClient || (claudeClient.transport as any).closed) {
-    try {
-      claudeClient = await createClaudeClient();
-    } catch (err) {
-      throw err;
-    }
+// Connection attempt in progress, shared by concurrent callers so the
+// supervision loop and tool calls don't each spawn a server
+let connecting: { promise: Promise<ClaudeClientWrapper>; controller: AbortController } | null = null;
+
+// Aborting signal gives up on the connection attempt and stops its server
+export async function ensureClaudeClient(signal?: AbortSignal): Promise<ClaudeClientWrapper> {
+  if (claudeClient && !(claudeClient.transport as any).closed) {
+    return claudeClient;
+  }
+  if (!connecting) {
+    const controller = new AbortController();
+    const attempt = {
+      controller,
+      promise: createClaudeClient(controller.signal).finally(() => {
+        if (connecting === attempt) connecting = null;
+      }),
+    };
+    connecting = attempt;
+  }
+  const { promise, controller } = connecting;
+  const abort = () => controller.abort();
+  signal?.addEventListener("abort", abort, { once: true });
+  if (signal?.aborted) abort();
+  try {
+    claudeClient = await promise;
+    return claudeClient;
+  } finally {
+    signal?.removeEventListener("abort", abort);
   }
-  return claudeClient;
 }
 
 export async function closeClaudeClient(): Promise<void> {
@@ -1,25 +1,44 @@
 #!/usr/bin/env node
 import { z } from "zod";
 import { ensureClaudeClient } from "./claudeClient.js";
+import {
+  nativeViewFile,
+  nativeEditFile,
+  nativeListDirectory,
+  nativeWriteFile,
+  nativeRunBash,
+  nativeGrepFiles,
+} from "./nativeTools.js";
+
+export type ClaudeToolContent =
+  | {
+      [x: string]: unknown;
+      type: "text";
+      text: string;
+      _meta?: { [x: string]: unknown };
+    }
+  | {
+      [x: string]: unknown;
+      type: "image";
+      // Base64-encoded image data
+      data: string;
+      mimeType: string;
+      _meta?: { [x: string]: unknown };
+    };
 
 export interface ClaudeToolResult {
   [x: string]: unknown;
-  content: Array<{
-    [x: string]: unknown;
-    type: "text";
-    text: string;
-    _meta?: { [x: string]: unknown };
-  }>;
+  content: ClaudeToolContent[];
   isError?: boolean;
   _meta?: { [x: string]: unknown };
 }
 
 // Helper function to normalize MCP tool call results
-function normalizeMcpResult(mcpResult: any): ClaudeToolResult {
+export function normalizeMcpResult(mcpResult: any): ClaudeToolResult {
   try {
     if (!mcpResult || !mcpResult.content) {
       return {
-        content: [{ type: "text", text: "No content received from Claude tool" }],
+        content: [{ type: "text", text: "No content received from MCP tool" }],
         isError: true
       };
     }
@@ -29,7 +48,7 @@ function normalizeMcpResult(mcpResult: any): ClaudeToolResult {
       if (item.type === "text" && item.text) {
         return { type: "text", text: item.text };
       } else if (item.type === "image" && item.data) {
-        return { type: "text", text: `[Image data: ${item.mimeType || 'unknown'}]` };
+        return { type: "image", data: item.data, mimeType: item.mimeType || "image/png" };
       } else if (item.type === "resource" && item.resource) {
         return { type: "text", text: item.resource.text || item.resource.uri || "[Resource]" };
       } else {
@@ -39,7 +58,7 @@ function normalizeMcpResult(mcpResult: any): ClaudeToolResult {
 
     return {
       content: normalizedContent,
-      isError: false
+      isError: Boolean(mcpResult.isError)
     };
   } catch (error) {
     return {
@@ -49,107 +68,134 @@ function normalizeMcpResult(mcpResult: any): ClaudeToolResult {
   }
 }
 
-// View tool - ファイル読み取り
-export async function viewFile(path: string): Promise<ClaudeToolResult> {
+export type ToolBackend = "claude" | "native" | "auto";
+
+// How long to wait for `claude mcp serve` before falling back in auto mode
+const CLAUDE_CONNECT_TIMEOUT_MS = 15000;
+// After a failed connection, use the native backend for this long before
+// trying Claude again
+const CLAUDE_RETRY_COOLDOWN_MS = 60000;
+
+let claudeUnavailableUntil = 0;
+
+// TOOL_BACKEND selects the implementation behind the claude_* tools:
+// claude (Claude Code CLI), native (in-process), or auto (Claude, falling
+// back to native when the CLI is unavailable)
+export function getToolBackend(): ToolBackend {
+  const backend = process.env.TOOL_BACKEND;
+  return backend === "claude" || backend === "native" ? backend : "auto";
+}
+
+async function connectWithTimeout() {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
   try {
-    const { client } = await ensureClaudeClient();
-    const result = await client.callTool({
-      name: "Read",
-      arguments: { file_path: path },
-    });
-    return normalizeMcpResult(result);
-  } catch (error) {
-    return {
-      content: [{ type: "text", text: `Error reading file: ${error instanceof Error ? error.message : String(error)}` }],
-      isError: true
-    };
+    return await Promise.race([
+      ensureClaudeClient(controller.signal),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          // Stop the attempt so `claude mcp serve` doesn't keep running
+          controller.abort();
+          reject(new Error(`Claude Code did not start within ${CLAUDE_CONNECT_TIMEOUT_MS / 1000}s`));
+        }, CLAUDE_CONNECT_TIMEOUT_MS);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
   }
 }
 
-// Edit tool - ファイル編集
-export async function editFile(file_path: string, old_string: string, new_string: string): Promise<ClaudeToolResult> {
+// Run a tool on the configured backend. Aborting the signal cancels the
+// Claude Code call (or kills a native command) and skips calls not yet started.
+async function runTool(
+  claudeName: string,
+  claudeArgs: Record<string, unknown>,
+  nativeCall: () => Promise<ClaudeToolResult>,
+  errorLabel: string,
+  signal?: AbortSignal
+): Promise<ClaudeToolResult> {
+  const backend = getToolBackend();
   try {
-    const { client } = await ensureClaudeClient();
-    const result = await client.callTool({
-      name: "Edit",
-      arguments: { file_path, old_string, new_string },
-    });
+    signal?.throwIfAborted();
+    if (backend === "native" || (backend === "auto" && Date.now() < claudeUnavailableUntil)) {
+      return await nativeCall();
+    }
+
+    let client;
+    try {
+      ({ client } = await connectWithTimeout());
+    } catch (error) {
+      if (backend === "claude") throw error;
+      claudeUnavailableUntil = Date.now() + CLAUDE_RETRY_COOLDOWN_MS;
+      process.stderr.write(
+        `[claude-code-tools] Claude Code unavailable, using native tools: ${error instanceof Error ? error.message : String(error)}\n`
+      );
+      return await nativeCall();
+    }
+
+    const result = await client.callTool(
+      {
+        name: claudeName,
+        arguments: claudeArgs,
+      },
+      undefined,
+      { ...(signal && { signal }) }
+    );
     return normalizeMcpResult(result);
   } catch (error) {
     return {
-      content: [{ type: "text", text: `Error editing file: ${error instanceof Error ? error.message : String(error)}` }],
+      content: [{ type: "text", text: `${errorLabel}: ${error instanceof Error ? error.message : String(error)}` }],
       isError: true
     };
   }
 }
 
+// View tool - ファイル読み取り
+export async function viewFile(path: string, signal?: AbortSignal): Promise<ClaudeToolResult> {
+  return runTool("Read", { file_path: path }, () => nativeViewFile(path), "Error reading file", signal);
+}
+
+// Edit tool - ファイル編集
+export async function editFile(
+  file_path: string,
+  old_string: string,
+  new_string: string,
+  signal?: AbortSignal
+): Promise<ClaudeToolResult> {
+  return runTool(
+    "Edit",
+    { file_path, old_string, new_string },
+    () => nativeEditFile(file_path, old_string, new_string),
+    "Error editing file",
+    signal
+  );
+}
+
 // LS tool - ディレクトリ一覧
-export async function listDirectory(path: string = "."): Promise<ClaudeToolResult> {
-  try {
-    const { client } = await ensureClaudeClient();
-    const result = await client.callTool({
-      name: "LS",
-      arguments: { path },
-    });
-    return normalizeMcpResult(result);
-  } catch (error) {
-    return {
-      content: [{ type: "text", text: `Error listing directory: ${error instanceof Error ? error.message : String(error)}` }],
-      isError: true
-    };
-  }
+export async function listDirectory(path: string = ".", signal?: AbortSignal): Promise<ClaudeToolResult> {
+  return runTool("LS", { path }, () => nativeListDirectory(path), "Error listing directory", signal);
 }
 
 // Write tool - ファイル新規作成
-export async function writeFile(path: string, content: string): Promise<ClaudeToolResult> {
-  try {
-    const { client } = await ensureClaudeClient();
-    const result = await client.callTool({
-      name: "Write",
-      arguments: { file_path: path, content },
-    });
-    return normalizeMcpResult(result);
-  } catch (error) {
-    return {
-      content: [{ type: "text", text: `Error writing file: ${error instanceof Error ? error.message : String(error)}` }],
-      isError: true
-    };
-  }
+export async function writeFile(path: string, content: string, signal?: AbortSignal): Promise<ClaudeToolResult> {
+  return runTool(
+    "Write",
+    { file_path: path, content },
+    () => nativeWriteFile(path, content),
+    "Error writing file",
+    signal
+  );
 }
 
 // Bash tool - コマンド実行
-export async function runBash(command: string): Promise<ClaudeToolResult> {
-  try {
-    const { client } = await ensureClaudeClient();
-    const result = await client.callTool({
-      name: "Bash",
-      arguments: { command },
-    });
-    return normalizeMcpResult(result);
-  } catch (error) {
-    return {
-      content: [{ type: "text", text: `Error running command: ${error instanceof Error ? error.message : String(error)}` }],
-      isError: true
-    };
-  }
+export async function runBash(command: string, signal?: AbortSignal): Promise<ClaudeToolResult> {
+  return runTool("Bash", { command }, () => nativeRunBash(command, signal), "Error running command", signal);
 }
 
 // Grep tool - ファイル検索
-export async function grepFiles(pattern: string, path?: string): Promise<ClaudeToolResult> {
-  try {
-    const { client } = await ensureClaudeClient();
-    const args: any = { pattern };
-    if (path) args.path = path;
-    
-    const result = await client.callTool({
-      name: "Grep",
-      arguments: args,
-    });
-    return normalizeMcpResult(result);
-  } catch (error) {
-    return {
-      content: [{ type: "text", text: `Error searching files: ${error instanceof Error ? error.message : String(error)}` }],
-      isError: true
-    };
-  }
-}
\ No newline at end of file
+export async function grepFiles(pattern: string, path?: string, signal?: AbortSignal): Promise<ClaudeToolResult> {
+  const args: any = { pattern };
+  if (path) args.path = path;
+
+  return runTool("Grep", args, () => nativeGrepFiles(pattern, path), "Error searching files", signal);
+}
@@ -0,0 +1,393 @@
+import type { DiffCommits } from "./gitDiff.js";
+import type { ResponseFormat } from "./responseFormats.js";
+
+// Review mode: the diff parsed into files and hunks, o3's findings checked
+// against them, and the result as GitHub/GitLab review comments.
+
+export interface DiffLine {
+  type: "add" | "delete" | "context";
+  content: string;
+  // Line number in the old file; absent for added lines
+  oldLine?: number;
+  // Line number in the new file; absent for deleted lines
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  // Text after the second @@, usually the enclosing function
+  heading: string;
+  lines: DiffLine[];
+}
+
+export interface DiffFile {
+  oldPath: string | null;
+  newPath: string | null;
+  binary: boolean;
+  hunks: DiffHunk[];
+}
+
+export interface ReviewComment {
+  file: string;
+  // New-side line the comment is attached to (the last line of a range)
+  line: number;
+  startLine?: number;
+  severity: string;
+  category: string;
+  body: string;
+  suggestion?: string;
+  // Old-side line when `line` is an unchanged context line; GitLab needs both
+  oldLine?: number;
+  oldPath: string;
+}
+
+export interface RejectedComment {
+  file: string;
+  line: number | null;
+  body: string;
+  reason: string;
+}
+
+export interface Review {
+  summary: string;
+  verdict: "approve" | "request_changes" | "comment";
+  comments: ReviewComment[];
+  // Findings whose file or line isn't part of the diff
+  rejected: RejectedComment[];
+}
+
+const SEVERITIES = ["critical", "major", "minor", "nit"];
+const CATEGORIES = ["bug", "security", "performance", "maintainability", "style", "test"];
+
+export const REVIEW_RESPONSE_FORMAT: ResponseFormat = {
+  name: "line_review",
+  description: "Review comments anchored to new-side line numbers of the diff",
+  strict: true,
+  schema: {
+    type: "object",
+    properties: {
+      summary: { type: "string", description: "Overall assessment of the change" },
+      verdict: { type: "string", enum: ["approve", "request_changes", "comment"] },
+      comments: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            file: { type: "string", description: "Path of the changed file as shown in the diff" },
+            line: {
+              type: "integer",
+              description: "New-side line number from the numbered diff that the comment is about",
+            },
+            start_line: {
+              type: ["integer", "null"],
+              description: "First line when the comment covers a range in the same hunk, else null",
+            },
+            severity: { type: "string", enum: SEVERITIES },
+            category: { type: "string", enum: CATEGORIES },
+            body: { type: "string", description: "What is wrong and why it matters" },
+            suggestion: {
+              type: ["string", "null"],
+              description: "How to fix it, with code if helpful, or null",
+            },
+          },
+          required: ["file", "line", "start_line", "severity", "category", "body", "suggestion"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["summary", "verdict", "comments"],
+    additionalProperties: false,
+  },
+};
+
+// Paths in `diff --git`, ---/+++ headers may be quoted when they contain
+// special characters
+function unquotePath(value: string): string {
+  if (value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  return value;
+}
+
+function headerPath(value: string): string | null {
+  const unquoted = unquotePath(value.trim());
+  if (unquoted === "/dev/null") return null;
+  return unquoted.replace(/^[ab]\//, "");
+}
+
+const hunkHeaderPattern = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+// Parse `git diff`/`git show` output into files and hunks. Lines before the
+// first `diff --git` (the commit header of `git show`) are ignored.
+export function parseUnifiedDiff(content: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of content.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      const match = /^diff --git (?:"?a\/(.+?)"?) (?:"?b\/(.+?)"?)$/.exec(line);
+      file = {
+        oldPath: match?.[1] ?? null,
+        newPath: match?.[2] ?? null,
+        binary: false,
+        hunks: [],
+      };
+      files.push(file);
+      hunk = null;
+      continue;
+    }
+    if (!file) continue;
+
+    const header = hunkHeaderPattern.exec(line);
+    if (header) {
+      hunk = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        heading: header[5] ?? "",
+        lines: [],
+      };
+      file.hunks.push(hunk);
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+      continue;
+    }
+
+    if (!hunk) {
+      // Extended header lines between `diff --git` and the first hunk
+      if (line.startsWith("--- ")) {
+        file.oldPath = headerPath(line.slice(4));
+      } else if (line.startsWith("+++ ")) {
+        file.newPath = headerPath(line.slice(4));
+      } else if (line.startsWith("new file mode")) {
+        file.oldPath = null;
+      } else if (line.startsWith("deleted file mode")) {
+        file.newPath = null;
+      } else if (line.startsWith("rename from ")) {
+        file.oldPath = unquotePath(line.slice("rename from ".length));
+      } else if (line.startsWith("rename to ")) {
+        file.newPath = unquotePath(line.slice("rename to ".length));
+      } else if (line.startsWith("Binary files ")) {
+        file.binary = true;
+      }
+      continue;
+    }
+
+    if (line.startsWith("+")) {
+      hunk.lines.push({ type: "add", content: line.slice(1), newLine: newLine++ });
+    } else if (line.startsWith("-")) {
+      hunk.lines.push({ type: "delete", content: line.slice(1), oldLine: oldLine++ });
+    } else if (line.startsWith(" ")) {
+      hunk.lines.push({
+        type: "context",
+        content: line.slice(1),
+        oldLine: oldLine++,
+        newLine: newLine++,
+      });
+    }
+    // "\ No newline at end of file" and the trailing empty line carry no line
+  }
+  return files;
+}
+
+// The diff as o3 sees it in review mode: every new-side line is prefixed with
+// its number, so findings can refer to lines that exist in the hunks
+export function formatNumberedDiff(files: DiffFile[]): string {
+  const sections: string[] = [];
+  for (const file of files) {
+    const name =
+      file.oldPath && file.newPath && file.oldPath !== file.newPath
+        ? `${file.oldPath} → ${file.newPath}`
+        : file.newPath ?? `${file.oldPath} (deleted)`;
+    if (file.binary) {
+      sections.push(`### ${name}\n(binary file, no line comments possible)`);
+      continue;
+    }
+    const hunks = file.hunks.map((hunk) => {
+      const header = `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@ ${hunk.heading}`.trimEnd();
+      const lines = hunk.lines.map((line) => {
+        const number = line.newLine === undefined ? "" : String(line.newLine);
+        const marker = line.type === "add" ? "+" : line.type === "delete" ? "-" : " ";
+        return `${number.padStart(6)} ${marker}${line.content}`;
+      });
+      return [header, ...lines].join("\n");
+    });
+    sections.push(`### ${name}\n\`\`\`diff\n${hunks.join("\n")}\n\`\`\``);
+  }
+  return sections.join("\n\n");
+}
+
+function normalizePath(file: string): string {
+  return file.trim().replace(/^\.\//, "").replace(/^[ab]\//, "");
+}
+
+// New-side line of a hunk that a comment may be attached to
+function findLine(hunks: DiffHunk[], line: number): { hunk: DiffHunk; line: DiffLine } | null {
+  for (const hunk of hunks) {
+    const found = hunk.lines.find((item) => item.newLine === line);
+    if (found) return { hunk, line: found };
+  }
+  return null;
+}
+
+// Check o3's structured review against the parsed diff. Comments whose file
+// isn't in the diff or whose line isn't a new-side line of one of its hunks
+// are rejected; an invalid start_line narrows the comment to a single line.
+export function validateReview(value: any, files: DiffFile[]): Review {
+  const comments: ReviewComment[] = [];
+  const rejected: RejectedComment[] = [];
+
+  for (const finding of value.comments ?? []) {
+    const file = normalizePath(String(finding.file ?? ""));
+    const body = String(finding.body ?? "");
+    const reject = (reason: string) =>
+      rejected.push({ file, line: typeof finding.line === "number" ? finding.line : null, body, reason });
+
+    const diffFile = files.find((candidate) => candidate.newPath === file);
+    if (!diffFile) {
+      reject(
+        files.some((candidate) => candidate.oldPath === file)
+          ? "file was deleted or renamed in this diff"
+          : "file is not part of the diff"
+      );
+      continue;
+    }
+    const anchor = findLine(diffFile.hunks, finding.line);
+    if (!anchor) {
+      reject(`line ${finding.line} is not in any hunk of ${file}`);
+      continue;
+    }
+
+    const start =
+      typeof finding.start_line === "number" && finding.start_line < finding.line
+        ? findLine([anchor.hunk], finding.start_line)
+        : null;
+    comments.push({
+      file,
+      line: finding.line,
+      ...(start && { startLine: finding.start_line }),
+      severity: finding.severity,
+      category: finding.category,
+      body,
+      ...(finding.suggestion && { suggestion: String(finding.suggestion) }),
+      ...(anchor.line.type === "context" &&
+        anchor.line.oldLine !== undefined && { oldLine: anchor.line.oldLine }),
+      oldPath: diffFile.oldPath ?? file,
+    });
+  }
+
+  return {
+    summary: String(value.summary ?? ""),
+    verdict: value.verdict,
+    comments,
+    rejected,
+  };
+}
+
+function commentBody(comment: ReviewComment): string {
+  const lines = [`**${comment.severity}** (${comment.category}): ${comment.body}`];
+  if (comment.suggestion) {
+    lines.push("", `**Suggestion:** ${comment.suggestion}`);
+  }
+  return lines.join("\n");
+}
+
+function rejectedSection(review: Review): string[] {
+  if (review.rejected.length === 0) return [];
+  return [
+    "",
+    "**Comments not tied to a changed line:**",
+    ...review.rejected.map(
+      (comment) =>
+        `- ${comment.file}${comment.line === null ? "" : `:${comment.line}`}: ${comment.body} _(${comment.reason})_`
+    ),
+  ];
+}
+
+const GITHUB_EVENTS = {
+  approve: "APPROVE",
+  request_changes: "REQUEST_CHANGES",
+  comment: "COMMENT",
+} as const;
+
+// Body for POST /repos/{owner}/{repo}/pulls/{pull_number}/reviews
+export function toGitHubReview(review: Review, commits: DiffCommits = {}) {
+  return {
+    ...(commits.headSha && { commit_id: commits.headSha }),
+    event: GITHUB_EVENTS[review.verdict] ?? "COMMENT",
+    body: [review.summary, ...rejectedSection(review)].join("\n"),
+    comments: review.comments.map((comment) => ({
+      path: comment.file,
+      line: comment.line,
+      side: "RIGHT",
+      ...(comment.startLine !== undefined && {
+        start_line: comment.startLine,
+        start_side: "RIGHT",
+      }),
+      body: commentBody(comment),
+    })),
+  };
+}
+
+// Bodies for POST /projects/:id/merge_requests/:merge_request_iid/discussions
+export function toGitLabDiscussions(review: Review, commits: DiffCommits = {}) {
+  return review.comments.map((comment) => ({
+    body: commentBody(comment),
+    position: {
+      position_type: "text",
+      ...(commits.baseSha && { base_sha: commits.baseSha }),
+      ...(commits.startSha && { start_sha: commits.startSha }),
+      ...(commits.headSha && { head_sha: commits.headSha }),
+      old_path: comment.oldPath,
+      new_path: comment.file,
+      new_line: comment.line,
+      ...(comment.oldLine !== undefined && { old_line: comment.oldLine }),
+    },
+  }));
+}
+
+const VERDICT_LABELS = {
+  approve: "Approve",
+  request_changes: "Request changes",
+  comment: "Comment",
+} as const;
+
+// Markdown rendering of a review, grouped by file
+export function formatReview(review: Review): string {
+  const lines = [
+    `## Review: ${VERDICT_LABELS[review.verdict] ?? review.verdict}`,
+    "",
+    review.summary,
+  ];
+  const byFile = new Map<string, ReviewComment[]>();
+  for (const comment of review.comments) {
+    byFile.set(comment.file, [...(byFile.get(comment.file) ?? []), comment]);
+  }
+  for (const [file, comments] of byFile) {
+    lines.push("", `### ${file}`);
+    for (const comment of comments.sort((a, b) => a.line - b.line)) {
+      const range =
+        comment.startLine !== undefined ? `${comment.startLine}-${comment.line}` : `${comment.line}`;
+      lines.push(`- **L${range}** [${comment.severity}/${comment.category}] ${comment.body}`);
+      if (comment.suggestion) {
+        lines.push(`  - Suggestion: ${comment.suggestion.replace(/\n/g, "\n    ")}`);
+      }
+    }
+  }
+  if (review.comments.length === 0) {
+    lines.push("", "No line comments.");
+  }
+  lines.push(...rejectedSection(review));
+  return lines.join("\n");
+}
@@ -0,0 +1,174 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { RequestId } from "@modelcontextprotocol/sdk/types.js";
+import { readFile } from "fs/promises";
+import { createUnifiedDiff } from "./unifiedDiff.js";
+
+export type ConfirmationMode = "elicit" | "auto" | "deny";
+
+export interface ConfirmationConfig {
+  // elicit: ask the human through MCP elicitation
+  // auto: run without asking (trusts the sandbox policy alone)
+  // deny: never run tools that need confirmation
+  mode: ConfirmationMode;
+  timeoutMs: number;
+  allowConversationApproval: boolean;
+  tools: string[];
+}
+
+export interface ConfirmationRequest {
+  conversationId: string;
+  functionName: string;
+  args: any;
+  relatedRequestId?: RequestId | undefined;
+  // Confirm even when functionName isn't in CONFIRMATION_TOOLS
+  alwaysConfirm?: boolean | undefined;
+  // Stops waiting for the user when the request is cancelled
+  signal?: AbortSignal | undefined;
+}
+
+// Longest preview shown in a confirmation prompt
+const MAX_PREVIEW_LENGTH = 8000;
+
+export function loadConfirmationConfig(): ConfirmationConfig {
+  const validModes = ["elicit", "auto", "deny"] as const;
+  const mode = validModes.includes(process.env.CONFIRMATION_MODE as any)
+    ? (process.env.CONFIRMATION_MODE as ConfirmationMode)
+    : "elicit";
+
+  return {
+    mode,
+    timeoutMs: parseInt(process.env.CONFIRMATION_TIMEOUT_MS || "", 10) || 120000,
+    allowConversationApproval: !["0", "false", "no"].includes(
+      (process.env.CONFIRMATION_ALLOW_CONVERSATION_APPROVAL || "").toLowerCase()
+    ),
+    tools: (process.env.CONFIRMATION_TOOLS || "claude_edit,claude_write,claude_bash")
+      .split(",")
+      .map((tool) => tool.trim())
+      .filter(Boolean),
+  };
+}
+
+function truncatePreview(text: string): string {
+  return text.length > MAX_PREVIEW_LENGTH
+    ? `${text.slice(0, MAX_PREVIEW_LENGTH)}\n...[preview truncated, ${text.length} characters total]`
+    : text;
+}
+
+async function readExisting(filePath: string): Promise<string | null> {
+  try {
+    return await readFile(filePath, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+// Render what the tool call is about to do: the command, or the file diff
+export async function buildConfirmationPreview(functionName: string, args: any): Promise<string> {
+  switch (functionName) {
+    case "claude_bash":
+      return `o3 wants to run a command:\n\n${args.command}`;
+    case "claude_write": {
+      const existing = await readExisting(args.file_path);
+      const diff = createUnifiedDiff(args.file_path, existing, args.content ?? "");
+      return `o3 wants to ${existing === null ? "create" : "overwrite"} ${args.file_path}:\n\n${truncatePreview(diff || "(no changes)")}`;
+    }
+    case "claude_edit": {
+      const existing = await readExisting(args.file_path);
+      if (existing !== null && existing.includes(args.old_string)) {
+        const updated = existing.replace(args.old_string, () => args.new_string);
+        return `o3 wants to edit ${args.file_path}:\n\n${truncatePreview(createUnifiedDiff(args.file_path, existing, updated))}`;
+      }
+      return `o3 wants to edit ${args.file_path}, replacing:\n\n${truncatePreview(args.old_string)}\n\nwith:\n\n${truncatePreview(args.new_string)}`;
+    }
+    default:
+      return `o3 wants to call ${functionName} with:\n\n${truncatePreview(JSON.stringify(args, null, 2))}`;
+  }
+}
+
+export class ConfirmationManager {
+  // Tools the human approved for the rest of a conversation
+  private approvals: Map<string, Set<string>> = new Map();
+
+  constructor(
+    private server: Server,
+    private config: ConfirmationConfig
+  ) {}
+
+  requiresConfirmation(functionName: string): boolean {
+    return this.config.tools.includes(functionName);
+  }
+
+  // Resolve when the call may run, throw with the reason when it may not
+  async confirm(request: ConfirmationRequest): Promise<void> {
+    const { conversationId, functionName, args } = request;
+    if (!request.alwaysConfirm && !this.requiresConfirmation(functionName)) return;
+
+    if (this.config.mode === "auto") return;
+    if (this.config.mode === "deny") {
+      throw new Error(`${functionName} was rejected: confirmation mode is "deny"`);
+    }
+    if (this.approvals.get(conversationId)?.has(functionName)) return;
+
+    if (!this.server.getClientCapabilities()?.elicitation) {
+      throw new Error(
+        `${functionName} was rejected: the MCP client does not support elicitation, so the user cannot be asked for confirmation`
+      );
+    }
+
+    const preview = await buildConfirmationPreview(functionName, args);
+    const properties: Record<string, any> = {
+      approve: {
+        type: "boolean",
+        title: "Approve",
+        description: `Allow o3 to run ${functionName}`,
+        default: false,
+      },
+    };
+    if (this.config.allowConversationApproval) {
+      properties.approve_for_conversation = {
+        type: "boolean",
+        title: "Approve for this conversation",
+        description: `Allow ${functionName} without asking again in conversation "${conversationId}"`,
+        default: false,
+      };
+    }
+
+    let result;
+    try {
+      result = await this.server.elicitInput(
+        {
+          message: preview,
+          requestedSchema: {
+            type: "object",
+            properties,
+            required: ["approve"],
+          },
+        },
+        {
+          timeout: this.config.timeoutMs,
+          ...(request.relatedRequestId !== undefined && {
+            relatedRequestId: request.relatedRequestId,
+          }),
+          ...(request.signal && { signal: request.signal }),
+        }
+      );
+    } catch (error) {
+      throw new Error(
+        `${functionName} was rejected: no confirmation received (${
+          error instanceof Error ? error.message : String(error)
+        })`
+      );
+    }
+
+    if (result.action !== "accept" || result.content?.approve !== true) {
+      throw new Error(`${functionName} was rejected by the user`);
+    }
+
+    if (this.config.allowConversationApproval && result.content?.approve_for_conversation === true) {
+      if (!this.approvals.has(conversationId)) {
+        this.approvals.set(conversationId, new Set());
+      }
+      this.approvals.get(conversationId)!.add(functionName);
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import type OpenAI from "openai";
+import type { ConversationEntry } from "./conversationStore.js";
+import { createResponse, resolveModelCapabilities } from "./openaiProvider.js";
+import { priceUsage, type ModelPrice, type SummaryUsage } from "./usage.js";
+
+export type SummaryMode = "llm" | "truncate" | "off";
+
+export interface SummaryResult {
+  text: string;
+  // Set when producing the summary cost a model call
+  usage?: SummaryUsage;
+}
+
+export type Summarizer = (
+  previousSummary: string,
+  entries: ConversationEntry[],
+  maxTokens: number,
+  signal?: AbortSignal
+) => Promise<SummaryResult>;
+
+// Rough token estimate (~4 characters per token) - good enough for budgeting
+// without pulling in a tokenizer
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * 4;
+  if (text.length <= maxChars) return text;
+  return `${text.slice(0, maxChars)}\n...[truncated]`;
+}
+
+function formatEntriesForSummary(entries: ConversationEntry[]): string {
+  return entries
+    .map(
+      (entry) =>
+        `User (${entry.timestamp}):\n${entry.input}\n\nAssistant:\n${entry.response}`
+    )
+    .join("\n\n---\n\n");
+}
+
+// Summarize by keeping each query and the head of each response. Used when no
+// model call is wanted, and as the fallback when the model call fails.
+export const truncatingSummarizer: Summarizer = async (
+  previousSummary,
+  entries,
+  maxTokens
+) => {
+  const perEntryTokens = Math.max(
+    50,
+    Math.floor(maxTokens / Math.max(1, entries.length + (previousSummary ? 1 : 0)))
+  );
+  const parts: string[] = [];
+  if (previousSummary) {
+    parts.push(truncateToTokens(previousSummary, perEntryTokens));
+  }
+  for (const entry of entries) {
+    const query = entry.input.replace(/\s+/g, " ");
+    const answer = entry.response.replace(/\s+/g, " ");
+    parts.push(truncateToTokens(`- Q: ${query}\n  A: ${answer}`, perEntryTokens));
+  }
+  return { text: truncateToTokens(parts.join("\n"), maxTokens) };
+};
+
+export function createLlmSummarizer(
+  openai: OpenAI,
+  model: string,
+  price: ModelPrice | null
+): Summarizer {
+  const capabilities = resolveModelCapabilities(model);
+
+  // A cancelled request aborts the model call and falls back to truncation
+  return async (previousSummary, entries, maxTokens, signal) => {
+    let usage: SummaryUsage | undefined;
+    try {
+      const response = await createResponse(
+        openai,
+        {
+          model,
+          instructions: `You maintain a rolling summary of a conversation between another AI and an assistant. Merge the existing summary with the new turns into a single updated summary. Keep decisions, conclusions, file paths, identifiers, code facts and open questions; drop pleasantries and repetition. Answer with the summary only, in at most ${maxTokens} tokens.`,
+          input: `## Existing summary\n${previousSummary || "(none)"}\n\n## New turns\n${formatEntriesForSummary(entries)}`,
+          reasoning: { effort: "low" },
+        },
+        capabilities,
+        { signal }
+      );
+      // Billed even when the summary turns out to be unusable
+      usage = {
+        ...priceUsage(response.usage, price),
+        responseId: response.id,
+        model,
+      };
+      const summary = response.output_text?.trim();
+      if (!summary) {
+        throw new Error("empty summary returned");
+      }
+      return { text: truncateToTokens(summary, maxTokens), usage };
+    } catch (error) {
+      process.stderr.write(
+        `[DEBUG] Context summarization failed, falling back to truncation: ${
+          error instanceof Error ? error.message : String(error)
+        }\n`
+      );
+      const fallback = await truncatingSummarizer(previousSummary, entries, maxTokens);
+      return usage ? { ...fallback, usage } : fallback;
+    }
+  };
+}
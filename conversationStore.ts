@@ -1,29 +1,131 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { homedir } from 'os';
+import { estimateTokens, truncateToTokens, type Summarizer } from './contextSummarizer.js';
+import type { SourceCitation } from './citations.js';
+import { addUsage, emptyUsage, usageDay, type SummaryUsage, type TurnUsage, type UsageTotals } from './usage.js';
 
-interface ConversationEntry {
+export interface ToolCallAudit {
+  name: string;
+  arguments: string;
+  callId: string;
+  startedAt: string;
+  durationMs: number;
+  isError: boolean;
+  // Truncated to keep conversation files small
+  output: string;
+}
+
+// What o3 read, edited or executed while producing one answer
+export interface TurnAudit {
+  toolCalls: ToolCallAudit[];
+  webSearches: string[];
+  diffCommand?: string;
+  responseIds: string[];
+  dryRun?: boolean;
+  // Response the turn was chained from instead of replaying earlier turns
+  previousResponseId?: string;
+}
+
+export interface ConversationEntry {
   timestamp: string;
   input: string;
   filePaths?: string[];
   response: string;
+  audit?: TurnAudit;
+  usage?: TurnUsage;
+  sources?: SourceCitation[];
+  // Final response of a turn that ended with an answer; the next turn can
+  // continue from it with previous_response_id
+  responseId?: string;
+  // The request was cancelled before o3 answered; response says so, and
+  // the next turn replays the conversation as text
+  cancelled?: boolean;
+}
+
+// Optional per-entry records stored alongside the query and response
+export type ConversationEntryDetails = Omit<
+  ConversationEntry,
+  'timestamp' | 'input' | 'response' | 'filePaths'
+>;
+
+// Compacted form of the oldest entries, replacing them in the context
+export interface RollingSummary {
+  text: string;
+  // Number of leading entries folded into the summary
+  coveredEntries: number;
+  updatedAt: string;
 }
 
-interface Conversation {
+// Where a forked conversation branched off
+export interface ForkOrigin {
+  conversationId: string;
+  // Number of the parent's entries copied into the fork
+  entryCount: number;
+  forkedAt: string;
+}
+
+export interface Conversation {
   id: string;
   createdAt: string;
   updatedAt: string;
   entries: ConversationEntry[];
+  summary?: RollingSummary;
+  forkedFrom?: ForkOrigin;
+}
+
+export interface ContextOptions {
+  // Approximate token budget for the whole context block
+  tokenBudget: number;
+  // Part of the budget reserved for the rolling summary
+  summaryTokens: number;
+  // Without a summarizer, entries that don't fit the budget are dropped
+  summarizer?: Summarizer | undefined;
+  // Cancels summarization; a summary cut short this way isn't saved
+  signal?: AbortSignal | undefined;
+  // Called with the cost of each summarizer model call
+  onSummaryUsage?: ((usage: SummaryUsage) => void) | undefined;
+}
+
+export interface ConversationSummary {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  entryCount: number;
+  firstQuery: string;
+  forkedFrom?: ForkOrigin | undefined;
+  // IDs of conversations forked from this one
+  forks: string[];
+}
+
+export type ConversationExportFormat = 'markdown' | 'json';
+
+export interface DailyUsage extends UsageTotals {
+  turns: number;
+}
+
+// Reject IDs that could name a file outside the conversations directory.
+// Conversation IDs become file names as they are ("<id>.json"), so anything
+// without a path separator stays inside it.
+export function validateConversationId(id: string): void {
+  if (/[/\\\0]/.test(id)) {
+    throw new Error(`Invalid conversation ID: ${id} (must not contain "/" or "\\")`);
+  }
 }
 
 export class ConversationStore {
   private conversations: Map<string, Conversation> = new Map();
+  // Spend per UTC day, kept outside the conversations so deleting one
+  // doesn't reset the daily total
+  private dailyUsage: Record<string, DailyUsage> = {};
   private dataDir: string;
+  private usageFile: string;
 
   constructor() {
     // Use XDG_STATE_HOME or fallback to ~/.local/state
     const stateHome = process.env.XDG_STATE_HOME || path.join(homedir(), '.local', 'state');
     this.dataDir = path.join(stateHome, 'o3-search-mcp', 'conversations');
+    this.usageFile = path.join(stateHome, 'o3-search-mcp', 'usage.json');
     this.initializeDataDir();
   }
 
@@ -31,6 +133,7 @@ export class ConversationStore {
     try {
       await fs.mkdir(this.dataDir, { recursive: true });
       await this.loadAllConversations();
+      await this.loadDailyUsage();
     } catch (error) {
       console.error('Failed to initialize data directory:', error);
     }
@@ -52,12 +155,37 @@ export class ConversationStore {
         }
       }
       
-      console.log(`Loaded ${this.conversations.size} conversations from disk`);
+      // stdout carries the MCP protocol, so log to stderr
+      console.error(`Loaded ${this.conversations.size} conversations from disk`);
     } catch (error) {
       console.error('Failed to load conversations:', error);
     }
   }
 
+  private async loadDailyUsage(): Promise<void> {
+    try {
+      const data = await fs.readFile(this.usageFile, 'utf-8');
+      this.dailyUsage = JSON.parse(data) as Record<string, DailyUsage>;
+    } catch (error) {
+      if ((error as any).code !== 'ENOENT') {
+        console.error('Failed to load usage ledger:', error);
+      }
+    }
+  }
+
+  private async recordDailyUsage(usage: UsageTotals): Promise<void> {
+    const day = usageDay();
+    const daily = this.dailyUsage[day] ?? { ...emptyUsage(), turns: 0 };
+    addUsage(daily, usage);
+    daily.turns++;
+    this.dailyUsage[day] = daily;
+    try {
+      await fs.writeFile(this.usageFile, JSON.stringify(this.dailyUsage, null, 2), 'utf-8');
+    } catch (error) {
+      console.error('Failed to save usage ledger:', error);
+    }
+  }
+
   private async saveConversation(conversation: Conversation): Promise<void> {
     try {
       const filePath = path.join(this.dataDir, `${conversation.id}.json`);
@@ -80,19 +208,158 @@ export class ConversationStore {
   }
 
   getConversation(id: string): Conversation | null {
+    validateConversationId(id);
     return this.conversations.get(id) || null;
   }
 
   async resetConversation(id: string): Promise<void> {
+    validateConversationId(id);
+    this.conversations.delete(id);
+    await this.deleteConversationFile(id);
+  }
+
+  async deleteConversation(id: string): Promise<boolean> {
+    const existed = this.conversations.has(id);
+    await this.resetConversation(id);
+    return existed;
+  }
+
+  listConversations(): ConversationSummary[] {
+    const conversations = Array.from(this.conversations.values());
+    return conversations
+      .map(conversation => ({
+        id: conversation.id,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+        entryCount: conversation.entries.length,
+        firstQuery: conversation.entries[0]?.input ?? '',
+        forkedFrom: conversation.forkedFrom,
+        forks: conversations
+          .filter(other => other.forkedFrom?.conversationId === conversation.id)
+          .map(other => other.id)
+          .sort()
+      }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async renameConversation(id: string, newId: string): Promise<Conversation> {
+    const conversation = this.getConversation(id);
+    if (!conversation) {
+      throw new Error(`Conversation "${id}" not found`);
+    }
+    validateConversationId(newId);
+    if (this.conversations.has(newId)) {
+      throw new Error(`Conversation "${newId}" already exists`);
+    }
+
+    const renamed: Conversation = {
+      ...conversation,
+      id: newId,
+      updatedAt: new Date().toISOString()
+    };
+
+    await this.saveConversation(renamed);
+    this.conversations.set(newId, renamed);
     this.conversations.delete(id);
     await this.deleteConversationFile(id);
+
+    // Keep the lineage of forks pointing at the new ID
+    for (const fork of this.conversations.values()) {
+      if (fork.forkedFrom?.conversationId === id) {
+        fork.forkedFrom = { ...fork.forkedFrom, conversationId: newId };
+        await this.saveConversation(fork);
+      }
+    }
+    return renamed;
+  }
+
+  // Copy the first entryCount entries (default: all) into a new conversation
+  // so an alternative can be explored without touching the original
+  async forkConversation(id: string, newId?: string, entryCount?: number): Promise<Conversation> {
+    const conversation = this.getConversation(id);
+    if (!conversation) {
+      throw new Error(`Conversation "${id}" not found`);
+    }
+    const count = entryCount ?? conversation.entries.length;
+    if (!Number.isInteger(count) || count < 1 || count > conversation.entries.length) {
+      throw new Error(
+        `Fork point must be between 1 and ${conversation.entries.length} (the number of entries in "${id}")`
+      );
+    }
+
+    let forkId = newId;
+    if (!forkId) {
+      let n = 1;
+      while (this.conversations.has(`${id}-fork-${n}`)) n++;
+      forkId = `${id}-fork-${n}`;
+    }
+    validateConversationId(forkId);
+    if (this.conversations.has(forkId)) {
+      throw new Error(`Conversation "${forkId}" already exists`);
+    }
+
+    // The copied turns' spend stays with the parent, so it isn't counted
+    // again in the fork's cost and spend cap
+    const entries = structuredClone(conversation.entries.slice(0, count));
+    for (const entry of entries) {
+      delete entry.usage;
+    }
+
+    const now = new Date().toISOString();
+    const fork: Conversation = {
+      id: forkId,
+      createdAt: now,
+      updatedAt: now,
+      entries,
+      forkedFrom: { conversationId: id, entryCount: count, forkedAt: now }
+    };
+    // A summary of entries beyond the fork point would leak them into the fork
+    if (conversation.summary && conversation.summary.coveredEntries <= count) {
+      fork.summary = { ...conversation.summary };
+    }
+
+    this.conversations.set(forkId, fork);
+    await this.saveConversation(fork);
+    return fork;
+  }
+
+  exportConversation(conversation: Conversation, format: ConversationExportFormat): string {
+    if (format === 'json') {
+      return JSON.stringify(conversation, null, 2);
+    }
+
+    let markdown = `# Conversation: ${conversation.id}\n\n`;
+    markdown += `- Created: ${conversation.createdAt}\n`;
+    markdown += `- Updated: ${conversation.updatedAt}\n`;
+    markdown += `- Entries: ${conversation.entries.length}\n`;
+    if (conversation.forkedFrom) {
+      markdown += `- Forked from: ${conversation.forkedFrom.conversationId} after entry ${conversation.forkedFrom.entryCount}\n`;
+    }
+    markdown += '\n';
+
+    if (conversation.summary) {
+      markdown += `## Summary of entries 1-${conversation.summary.coveredEntries}\n\n`;
+      markdown += `${conversation.summary.text}\n\n`;
+    }
+
+    conversation.entries.forEach((entry, index) => {
+      markdown += `## ${index + 1}. ${entry.timestamp}\n\n`;
+      markdown += `### Query\n\n${entry.input}\n\n`;
+      if (entry.filePaths && entry.filePaths.length > 0) {
+        markdown += `**Files analyzed:** ${entry.filePaths.join(', ')}\n\n`;
+      }
+      markdown += `### Response\n\n${entry.response}\n\n`;
+    });
+
+    return markdown;
   }
 
   async createOrUpdateConversation(
     id: string,
     input: string,
     response: string,
-    filePaths?: string[]
+    filePaths?: string[],
+    details: ConversationEntryDetails = {}
   ): Promise<void> {
     let conversation = this.getConversation(id);
     
@@ -100,7 +367,8 @@ export class ConversationStore {
       timestamp: new Date().toISOString(),
       input,
       response,
-      ...(filePaths && { filePaths })
+      ...(filePaths && { filePaths }),
+      ...details
     };
 
     if (!conversation) {
@@ -117,30 +385,124 @@ export class ConversationStore {
 
     this.conversations.set(id, conversation);
     await this.saveConversation(conversation);
+
+    if (entry.usage) {
+      await this.recordDailyUsage(entry.usage);
+    }
   }
 
-  getConversationContext(conversation: Conversation, maxEntries: number = 10): string {
-    const recentEntries = conversation.entries.slice(-maxEntries);
-    
-    if (recentEntries.length === 0) {
+  // Response the next turn can chain from, if the last turn left one
+  getLastResponseId(conversation: Conversation): string | undefined {
+    return conversation.entries.at(-1)?.responseId;
+  }
+
+  // Known spend of a conversation in USD; turns with unknown prices count as 0
+  getConversationCost(id: string): number {
+    const conversation = this.getConversation(id);
+    if (!conversation) return 0;
+    return conversation.entries.reduce((sum, entry) => sum + (entry.usage?.costUsd ?? 0), 0);
+  }
+
+  getConversationUsage(conversation: Conversation): DailyUsage {
+    const totals: DailyUsage = { ...emptyUsage(), turns: 0 };
+    for (const entry of conversation.entries) {
+      if (!entry.usage) continue;
+      addUsage(totals, entry.usage);
+      totals.turns++;
+    }
+    return totals;
+  }
+
+  getDailyUsage(day: string = usageDay()): DailyUsage | null {
+    return this.dailyUsage[day] ?? null;
+  }
+
+  listDailyUsage(): Array<{ day: string; usage: DailyUsage }> {
+    return Object.entries(this.dailyUsage)
+      .map(([day, usage]) => ({ day, usage }))
+      .sort((a, b) => b.day.localeCompare(a.day));
+  }
+
+  private formatContextEntry(entry: ConversationEntry): string {
+    let text = `### User Query (${new Date(entry.timestamp).toLocaleString()}):\n`;
+    text += `${entry.input}\n\n`;
+
+    if (entry.filePaths && entry.filePaths.length > 0) {
+      text += `**Files analyzed:** ${entry.filePaths.join(", ")}\n\n`;
+    }
+
+    text += `### AI Response:\n`;
+    text += `${entry.response}\n\n`;
+    text += "---\n\n";
+    return text;
+  }
+
+  async getConversationContext(conversation: Conversation, options: ContextOptions): Promise<string> {
+    const { entries } = conversation;
+    const covered = Math.min(conversation.summary?.coveredEntries ?? 0, entries.length);
+    const verbatimBudget = Math.max(
+      1,
+      options.tokenBudget - (options.summarizer ? options.summaryTokens : 0)
+    );
+
+    // Keep as many recent entries verbatim as fit, always at least the latest one
+    const formatted = entries.map(entry => this.formatContextEntry(entry));
+    let usedTokens = 0;
+    let firstVerbatim = entries.length;
+    for (let i = entries.length - 1; i >= covered; i--) {
+      const tokens = estimateTokens(formatted[i]!);
+      if (firstVerbatim < entries.length && usedTokens + tokens > verbatimBudget) {
+        break;
+      }
+      usedTokens += tokens;
+      firstVerbatim = i;
+    }
+
+    // Fold entries that fell out of the window into the rolling summary
+    const overflow = entries.slice(covered, firstVerbatim);
+    if (overflow.length > 0) {
+      if (options.summarizer) {
+        const { text, usage } = await options.summarizer(
+          conversation.summary?.text ?? '',
+          overflow,
+          options.summaryTokens,
+          options.signal
+        );
+        if (usage) {
+          options.onSummaryUsage?.(usage);
+        }
+        if (options.signal?.aborted) {
+          return '';
+        }
+        conversation.summary = {
+          text,
+          coveredEntries: firstVerbatim,
+          updatedAt: new Date().toISOString()
+        };
+        await this.saveConversation(conversation);
+      } else {
+        process.stderr.write(
+          `[DEBUG] Dropping ${overflow.length} conversation entries outside the context budget\n`
+        );
+      }
+    }
+
+    if (firstVerbatim >= entries.length && !conversation.summary) {
       return "";
     }
 
     let context = "## Previous Conversation Context\n\n";
-    
-    for (const entry of recentEntries) {
-      context += `### User Query (${new Date(entry.timestamp).toLocaleString()}):\n`;
-      context += `${entry.input}\n\n`;
-      
-      if (entry.filePaths && entry.filePaths.length > 0) {
-        context += `**Files analyzed:** ${entry.filePaths.join(", ")}\n\n`;
-      }
-      
-      context += `### AI Response:\n`;
-      context += `${entry.response}\n\n`;
+
+    if (conversation.summary && conversation.summary.coveredEntries > 0) {
+      context += `### Summary of Earlier Conversation (${conversation.summary.coveredEntries} turns):\n`;
+      context += `${conversation.summary.text}\n\n`;
       context += "---\n\n";
     }
 
+    for (const text of formatted.slice(firstVerbatim)) {
+      context += truncateToTokens(text, verbatimBudget);
+    }
+
     return context;
   }
 }
@@ -0,0 +1,361 @@
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import path from "path";
+import { promisify } from "util";
+import { globToRegExp, matchesPathGlob } from "./globMatch.js";
+import { mediaTypeOf, type MediaKind } from "./mediaTypes.js";
+
+const execFileAsync = promisify(execFile);
+
+// Expansion of the file_paths parameter: files, directories and glob
+// patterns, read under per-file and total byte limits. Images and PDFs are
+// attached as they are rather than read as text.
+
+export interface FileInputLimits {
+  // Files larger than this are truncated
+  maxFileBytes: number;
+  // Total bytes of file content added to one request
+  maxTotalBytes: number;
+  // Most files a request may include
+  maxFiles: number;
+  // Images and PDFs larger than this are skipped
+  maxAttachmentBytes: number;
+  // Total bytes of images and PDFs attached to one request
+  maxTotalAttachmentBytes: number;
+  // Most files listed while expanding one directory or glob
+  maxListedFiles: number;
+}
+
+export interface IncludedFile {
+  path: string;
+  content: string;
+  bytes: number;
+  // Size on disk; larger than bytes when truncated
+  totalBytes: number;
+  truncated: boolean;
+}
+
+export interface AttachedFile {
+  path: string;
+  kind: MediaKind;
+  mimeType: string;
+  // Base64-encoded file content
+  data: string;
+  bytes: number;
+}
+
+export interface SkippedFile {
+  path: string;
+  reason: string;
+}
+
+// Files left out once a limit was reached, counted rather than listed so a
+// broad pattern doesn't flood the report
+export interface OmittedFiles {
+  count: number;
+  reason: string;
+}
+
+export interface FileInputs {
+  included: IncludedFile[];
+  attachments: AttachedFile[];
+  skipped: SkippedFile[];
+  omitted: OmittedFiles[];
+}
+
+const IGNORED_DIRECTORIES = new Set([".git", "node_modules"]);
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function loadFileInputLimits(): FileInputLimits {
+  return {
+    maxFileBytes: positiveInt(process.env.FILE_MAX_BYTES, 256 * 1024),
+    maxTotalBytes: positiveInt(process.env.FILE_TOTAL_BYTES, 1024 * 1024),
+    maxFiles: positiveInt(process.env.FILE_MAX_COUNT, 200),
+    maxAttachmentBytes: positiveInt(process.env.FILE_MAX_ATTACHMENT_BYTES, 20 * 1024 * 1024),
+    maxTotalAttachmentBytes: positiveInt(process.env.FILE_TOTAL_ATTACHMENT_BYTES, 50 * 1024 * 1024),
+    maxListedFiles: positiveInt(process.env.FILE_MAX_LISTED, 50000),
+  };
+}
+
+function isGlob(entry: string): boolean {
+  return /[*?{]/.test(entry);
+}
+
+function looksBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8000).includes(0);
+}
+
+function tooManyFiles(dir: string, maxFiles: number): Error {
+  return new Error(
+    `more than ${maxFiles} files under ${dir}; name a narrower directory or pattern`
+  );
+}
+
+// Files under dir that git doesn't ignore, or null outside a git work tree
+async function listGitFiles(dir: string, maxFiles: number): Promise<string[] | null> {
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync(
+      "git",
+      ["ls-files", "--cached", "--others", "--exclude-standard", "-z", "--", "."],
+      { cwd: dir, maxBuffer: 64 * 1024 * 1024 }
+    ));
+  } catch {
+    return null;
+  }
+  const files = stdout.split("\0").filter(Boolean);
+  if (files.length > maxFiles) {
+    throw tooManyFiles(dir, maxFiles);
+  }
+  return files.map((file) => path.join(dir, file));
+}
+
+// Stops with an error once more than maxEntries files and directories were seen
+async function walkDirectory(dir: string, maxEntries: number): Promise<string[]> {
+  const files: string[] = [];
+  let seen = 0;
+  const walk = async (current: string): Promise<void> => {
+    const entries = await fs.readdir(current, { withFileTypes: true });
+    for (const entry of entries) {
+      if (IGNORED_DIRECTORIES.has(entry.name)) continue;
+      if (++seen > maxEntries) {
+        throw tooManyFiles(dir, maxEntries);
+      }
+      const full = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        await walk(full);
+      } else if (entry.isFile()) {
+        files.push(full);
+      }
+    }
+  };
+  await walk(dir);
+  return files;
+}
+
+// Files in a directory, respecting .gitignore when it is inside a repository
+async function listDirectoryFiles(dir: string, maxFiles: number): Promise<string[]> {
+  const files = (await listGitFiles(dir, maxFiles)) ?? (await walkDirectory(dir, maxFiles));
+  return files.sort();
+}
+
+// The directory part of a glob before its first wildcard
+function globBase(pattern: string): string {
+  const segments = pattern.split("/");
+  const firstGlob = segments.findIndex(isGlob);
+  return segments.slice(0, firstGlob).join("/") || "/";
+}
+
+// Expand file_paths entries into candidate files. Explicitly named files are
+// always candidates; files found by expanding a directory or glob are
+// filtered by .gitignore and the sandbox's denied paths.
+async function expandEntries(
+  entries: string[],
+  maxListedFiles: number,
+  deniedPaths: string[],
+  skipped: SkippedFile[]
+): Promise<string[]> {
+  const candidates: string[] = [];
+  const add = (file: string) => {
+    if (!candidates.includes(file)) candidates.push(file);
+  };
+  const addExpanded = (file: string) => {
+    if (deniedPaths.some((glob) => matchesPathGlob(file, glob))) {
+      skipped.push({ path: file, reason: "denied by sandbox policy" });
+    } else {
+      add(file);
+    }
+  };
+
+  for (const entry of entries) {
+    const absolute = path.resolve(entry).replace(/\\/g, "/");
+    if (isGlob(entry)) {
+      const base = globBase(absolute);
+      // Expanding it would walk the whole filesystem
+      if (base === "/") {
+        skipped.push({
+          path: entry,
+          reason: "pattern starts at the filesystem root; put a directory before the first wildcard",
+        });
+        continue;
+      }
+      const regex = globToRegExp(absolute);
+      let files: string[];
+      try {
+        files = await listDirectoryFiles(base, maxListedFiles);
+      } catch (error) {
+        skipped.push({
+          path: entry,
+          reason: `cannot expand pattern: ${error instanceof Error ? error.message : String(error)}`,
+        });
+        continue;
+      }
+      const matches = files.filter((file) => regex.test(file.replace(/\\/g, "/")));
+      if (matches.length === 0) {
+        skipped.push({ path: entry, reason: "pattern matched no files" });
+      }
+      matches.forEach(addExpanded);
+      continue;
+    }
+
+    let stat;
+    try {
+      stat = await fs.stat(absolute);
+    } catch (error) {
+      skipped.push({
+        path: entry,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+    if (stat.isDirectory()) {
+      let files: string[];
+      try {
+        files = await listDirectoryFiles(absolute, maxListedFiles);
+      } catch (error) {
+        skipped.push({
+          path: entry,
+          reason: `cannot expand directory: ${error instanceof Error ? error.message : String(error)}`,
+        });
+        continue;
+      }
+      files.forEach(addExpanded);
+    } else {
+      add(absolute);
+    }
+  }
+  return candidates;
+}
+
+export async function readFileInputs(
+  entries: string[],
+  limits: FileInputLimits,
+  deniedPaths: string[] = []
+): Promise<FileInputs> {
+  const skipped: SkippedFile[] = [];
+  const included: IncludedFile[] = [];
+  const attachments: AttachedFile[] = [];
+  const omitted = new Map<string, number>();
+  const omit = (reason: string) => omitted.set(reason, (omitted.get(reason) ?? 0) + 1);
+  const candidates = await expandEntries(entries, limits.maxListedFiles, deniedPaths, skipped);
+  let remainingBytes = limits.maxTotalBytes;
+  let remainingAttachmentBytes = limits.maxTotalAttachmentBytes;
+
+  for (const file of candidates) {
+    if (included.length + attachments.length >= limits.maxFiles) {
+      omit(`file limit of ${limits.maxFiles} reached`);
+      continue;
+    }
+    const mediaType = mediaTypeOf(file);
+    if (mediaType) {
+      try {
+        const { size } = await fs.stat(file);
+        if (size > limits.maxAttachmentBytes) {
+          skipped.push({
+            path: file,
+            reason: `${mediaType.kind} of ${size} bytes exceeds the ${limits.maxAttachmentBytes} byte attachment limit`,
+          });
+          continue;
+        }
+        if (size > remainingAttachmentBytes) {
+          skipped.push({
+            path: file,
+            reason: `${mediaType.kind} of ${size} bytes exceeds the remaining attachment budget of ${remainingAttachmentBytes} bytes`,
+          });
+          continue;
+        }
+        const data = await fs.readFile(file);
+        remainingAttachmentBytes -= data.length;
+        attachments.push({
+          path: file,
+          kind: mediaType.kind,
+          mimeType: mediaType.mimeType,
+          data: data.toString("base64"),
+          bytes: data.length,
+        });
+      } catch (error) {
+        skipped.push({
+          path: file,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+      }
+      continue;
+    }
+
+    if (remainingBytes <= 0) {
+      omit(`byte budget of ${limits.maxTotalBytes} bytes used up`);
+      continue;
+    }
+
+    let handle;
+    try {
+      handle = await fs.open(file, "r");
+      const { size } = await handle.stat();
+      const limit = Math.min(size, limits.maxFileBytes, remainingBytes);
+      const buffer = Buffer.alloc(limit);
+      const { bytesRead } = await handle.read(buffer, 0, limit, 0);
+      const data = buffer.subarray(0, bytesRead);
+
+      if (looksBinary(data)) {
+        skipped.push({ path: file, reason: `binary file (${size} bytes)` });
+        continue;
+      }
+
+      // Don't cut a multi-byte character in half
+      let content = data.toString("utf-8");
+      if (bytesRead < size) content = content.replace(/\uFFFD+$/, "");
+      remainingBytes -= bytesRead;
+      included.push({
+        path: file,
+        content,
+        bytes: bytesRead,
+        totalBytes: size,
+        truncated: bytesRead < size,
+      });
+    } catch (error) {
+      skipped.push({
+        path: file,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      await handle?.close();
+    }
+  }
+
+  return {
+    included,
+    attachments,
+    skipped,
+    omitted: [...omitted].map(([reason, count]) => ({ count, reason })),
+  };
+}
+
+// Report of what was sent to the model, appended to the answer
+export function formatFileInputsReport(inputs: FileInputs): string {
+  const included = inputs.included.map(
+    (file) =>
+      `- ${file.path} (${
+        file.truncated ? `truncated to ${file.bytes} of ${file.totalBytes} bytes` : `${file.bytes} bytes`
+      })`
+  );
+  const attached = inputs.attachments.map(
+    (file) => `- ${file.path} (${file.kind}, ${file.bytes} bytes)`
+  );
+  const skipped = [
+    ...inputs.skipped.map((file) => `- ${file.path}: ${file.reason}`),
+    ...inputs.omitted.map(
+      (group) => `- ${group.count.toLocaleString("en-US")} more files skipped: ${group.reason}`
+    ),
+  ];
+  const skippedCount = inputs.omitted.reduce((sum, group) => sum + group.count, inputs.skipped.length);
+  return [
+    `**Files included (${inputs.included.length}):**`,
+    ...(included.length > 0 ? included : ["- (none)"]),
+    ...(attached.length > 0 ? ["", `**Files attached (${inputs.attachments.length}):**`, ...attached] : []),
+    ...(skipped.length > 0 ? ["", `**Files skipped (${skippedCount}):**`, ...skipped] : []),
+  ].join("\n");
+}
@@ -0,0 +1,113 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type { ClaudeToolResult } from "./claudeTools.js";
+import { createUnifiedDiff } from "./unifiedDiff.js";
+
+// In-memory copy-on-write view of the file system used by dry runs: edits
+// and writes land here instead of on disk, later reads see them, and the
+// accumulated changes can be rendered as one unified diff. Files are keyed by
+// their resolved path, so /a/./b and /a/b are the same file.
+export class FileOverlay {
+  // Content before the first change (null: file did not exist)
+  private originals: Map<string, string | null> = new Map();
+  private files: Map<string, string> = new Map();
+
+  has(filePath: string): boolean {
+    return this.files.has(path.resolve(filePath));
+  }
+
+  private async load(filePath: string): Promise<string | null> {
+    const key = path.resolve(filePath);
+    if (this.files.has(key)) {
+      return this.files.get(key)!;
+    }
+    try {
+      return await readFile(filePath, "utf-8");
+    } catch (error) {
+      if ((error as any).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  private async store(filePath: string, content: string): Promise<void> {
+    const key = path.resolve(filePath);
+    if (!this.originals.has(key)) {
+      this.originals.set(key, await this.load(key));
+    }
+    this.files.set(key, content);
+  }
+
+  view(filePath: string): ClaudeToolResult {
+    const content = this.files.get(path.resolve(filePath));
+    if (content === undefined) {
+      return {
+        content: [{ type: "text", text: `File not found in dry-run overlay: ${filePath}` }],
+        isError: true,
+      };
+    }
+    // Same numbered-line layout as Claude's Read tool
+    const numbered = content
+      .split("\n")
+      .map((line, index) => `${String(index + 1).padStart(6)}\t${line}`)
+      .join("\n");
+    return {
+      content: [{ type: "text", text: `[dry run: proposed content]\n${numbered}` }],
+    };
+  }
+
+  async edit(filePath: string, oldString: string, newString: string): Promise<ClaudeToolResult> {
+    const content = await this.load(filePath);
+    if (content === null) {
+      return {
+        content: [{ type: "text", text: `File does not exist: ${filePath}` }],
+        isError: true,
+      };
+    }
+
+    const matches = content.split(oldString).length - 1;
+    if (matches === 0) {
+      return {
+        content: [{ type: "text", text: `String to replace not found in file: ${filePath}` }],
+        isError: true,
+      };
+    }
+    if (matches > 1) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Found ${matches} matches of the string to replace in ${filePath}. Provide more surrounding context to make it unique.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    await this.store(filePath, content.replace(oldString, () => newString));
+    return {
+      content: [{ type: "text", text: `[dry run] Proposed edit to ${filePath} recorded (not written to disk).` }],
+    };
+  }
+
+  async write(filePath: string, content: string): Promise<ClaudeToolResult> {
+    await this.store(filePath, content);
+    return {
+      content: [{ type: "text", text: `[dry run] Proposed content for ${filePath} recorded (not written to disk).` }],
+    };
+  }
+
+  // One unified diff of every proposed change, in the order files were touched.
+  // Paths under baseDir are made relative so the patch applies with `git apply`.
+  diff(baseDir: string = process.cwd()): string {
+    let output = "";
+    for (const [filePath, content] of this.files) {
+      const relative = path.relative(baseDir, filePath);
+      const displayPath =
+        relative && !relative.startsWith("..") && !path.isAbsolute(relative)
+          ? relative.split(path.sep).join("/")
+          : filePath;
+      output += createUnifiedDiff(displayPath, this.originals.get(filePath) ?? null, content);
+    }
+    return output;
+  }
+}
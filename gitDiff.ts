@@ -0,0 +1,212 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+// Validate git refs to prevent command injection and option injection
+const refPattern = /^(?!-)[a-zA-Z0-9/_.\-~^]+$/;
+
+// Pathspecs: plain paths and glob patterns, optionally prefixed with the ":!"
+// exclude magic. No leading "-" (option injection) and no ".." segments.
+const pathspecPattern = /^(?::[!^])?(?!-)[a-zA-Z0-9/_.\-*?[\]{}@+=, ]+$/;
+
+export interface DiffOptions {
+  from?: string | undefined;
+  to?: string | undefined;
+  unstaged?: boolean | undefined;
+  staged?: boolean | undefined;
+  commit?: string | undefined;
+  mergeBase?: boolean | undefined;
+  paths?: string[] | undefined;
+  // Repository to run git in. Default: the server's working directory
+  cwd?: string | undefined;
+}
+
+export interface DiffResult {
+  content: string;
+  summary: string;
+  command: string;
+  lineCount: number;
+}
+
+// Commits a diff is based on, as review platforms need them to place comments
+export interface DiffCommits {
+  // Where the compared side diverged (merge base for three-dot comparisons)
+  baseSha?: string;
+  // The target branch's commit the diff was started from
+  startSha?: string;
+  // The commit being reviewed; absent when comparing against the working tree or index
+  headSha?: string;
+}
+
+export function validateRef(ref: string): void {
+  if (!refPattern.test(ref)) {
+    throw new Error(`Invalid git reference format: ${ref}`);
+  }
+}
+
+export function validatePathspec(pathspec: string): void {
+  if (
+    !pathspecPattern.test(pathspec) ||
+    pathspec.split("/").some((segment) => segment === "..")
+  ) {
+    throw new Error(`Invalid path filter: ${pathspec}`);
+  }
+}
+
+// Whether the options ask for any diff at all
+export function hasDiffRequest(options: DiffOptions): boolean {
+  return Boolean(options.from || options.commit || options.staged);
+}
+
+function buildDiffArgs(options: DiffOptions): string[] {
+  const { from, to, unstaged, staged, commit, mergeBase } = options;
+  const paths = options.paths ?? [];
+
+  for (const ref of [from, to, commit]) {
+    if (ref) validateRef(ref);
+  }
+  for (const pathspec of paths) {
+    validatePathspec(pathspec);
+  }
+
+  let args: string[];
+
+  if (commit) {
+    // A single commit's own changes, like `git show`
+    if (from || to || staged || mergeBase) {
+      throw new Error("'commit' cannot be combined with 'from', 'to', 'staged' or 'merge_base'");
+    }
+    args = ["--no-pager", "show", "--no-ext-diff", "--no-color", "--pretty=medium", commit];
+  } else if (staged) {
+    // Staged changes only: compare index against ref (HEAD by default)
+    if (to || mergeBase) {
+      throw new Error("'staged' cannot be combined with 'to' or 'merge_base'");
+    }
+    args = ["--no-pager", "diff", "--no-ext-diff", "--no-color", "--cached"];
+    if (from) args.push(from);
+  } else if (!from) {
+    throw new Error("'from' is required unless 'commit' or 'staged' is used");
+  } else if (mergeBase) {
+    // Three-dot comparison: changes on 'to' since it diverged from 'from',
+    // which is what a pull request shows
+    args = ["--no-pager", "diff", "--no-ext-diff", "--no-color", `${from}...${to || "HEAD"}`];
+  } else {
+    // Build git diff arguments array
+    args = ["--no-pager", "diff", "--no-ext-diff", "--no-color"];
+
+    if (to) {
+      // Compare between two refs
+      args.push(from, to);
+    } else {
+      // Compare from ref to working directory
+      const shouldIncludeUnstaged = unstaged !== false; // Default to true when to is not specified
+
+      if (shouldIncludeUnstaged) {
+        // Include unstaged changes: compare from ref to working directory
+        args.push(from);
+      } else {
+        // Exclude unstaged changes: compare from ref to HEAD
+        args.push(from, "HEAD");
+      }
+    }
+  }
+
+  // Add -- to separate refs from paths
+  args.push("--", ...paths);
+
+  return args;
+}
+
+// Git diff analysis function
+export async function executeDiff(options: DiffOptions): Promise<DiffResult> {
+  const args = buildDiffArgs(options);
+
+  // Execute git diff
+  const { stdout, stderr } = await execFileAsync("git", args, {
+    maxBuffer: 1024 * 1024 * 10, // 10MB buffer
+    cwd: options.cwd ?? process.cwd(),
+  });
+
+  const command = `git ${options.cwd ? `-C ${options.cwd} ` : ""}${args.join(" ")}`;
+
+  if (stderr && !stderr.includes("warning")) {
+    throw new Error(`Git diff failed: ${stderr}`);
+  }
+
+  const diffContent = stdout;
+  const lines = diffContent.split("\n");
+  const lineCount = lines.length;
+
+  // Check size limit (10,000 lines)
+  if (lineCount > 10000) {
+    throw new Error(`Diff too large (${lineCount} lines, limit: 10,000). Consider:
+- Specifying a smaller commit range
+- Adding path filters ('paths') to limit scope
+- Using 'staged' or 'commit' to narrow down the changes
+- Breaking down the analysis into smaller parts`);
+  }
+
+  // Generate summary - exclude file headers (+++/---) and count only actual content lines
+  const addedLines = lines.filter(
+    (line) => line.startsWith("+") && !line.startsWith("+++")
+  ).length;
+  const removedLines = lines.filter(
+    (line) => line.startsWith("-") && !line.startsWith("---")
+  ).length;
+  const changedFiles = new Set(
+    lines
+      .filter((line) => line.startsWith("diff --git"))
+      .map((line) => line.split(" ")[3]?.replace("b/", "") || "")
+      .filter(Boolean)
+  ).size;
+
+  const summary = `${changedFiles} files changed, ${addedLines} insertions(+), ${removedLines} deletions(-)`;
+
+  return {
+    content: diffContent,
+    summary: summary,
+    command: command,
+    lineCount: lineCount,
+  };
+}
+
+async function revParse(ref: string, cwd: string): Promise<string> {
+  const { stdout } = await execFileAsync("git", ["rev-parse", "--verify", `${ref}^{commit}`], {
+    cwd,
+  });
+  return stdout.trim();
+}
+
+// Resolve the commits behind a diff request. Only diffs between commits have
+// a head commit; diffs against the working tree or index don't.
+export async function resolveDiffCommits(options: DiffOptions): Promise<DiffCommits> {
+  const { from, to, unstaged, staged, commit, mergeBase } = options;
+  const cwd = options.cwd ?? process.cwd();
+  for (const ref of [from, to, commit]) {
+    if (ref) validateRef(ref);
+  }
+
+  if (commit) {
+    const headSha = await revParse(commit, cwd);
+    const baseSha = await revParse(`${commit}~1`, cwd).catch(() => undefined);
+    return { ...(baseSha && { baseSha, startSha: baseSha }), headSha };
+  }
+  if (staged || !from) {
+    return {};
+  }
+
+  const startSha = await revParse(from, cwd);
+  const headSha =
+    to || mergeBase
+      ? await revParse(to || "HEAD", cwd)
+      : unstaged === false
+        ? await revParse("HEAD", cwd)
+        : undefined;
+  let baseSha = startSha;
+  if (mergeBase && headSha) {
+    const { stdout } = await execFileAsync("git", ["merge-base", startSha, headSha], { cwd });
+    baseSha = stdout.trim();
+  }
+  return { baseSha, startSha, ...(headSha && { headSha }) };
+}
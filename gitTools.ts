@@ -0,0 +1,227 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { z } from "zod";
+import type { ClaudeToolResult } from "./claudeTools.js";
+import { executeDiff, validatePathspec, validateRef } from "./gitDiff.js";
+import { defineTool, type RegisteredTool } from "./toolRegistry.js";
+import { selectWorkspace } from "./workspaces.js";
+
+const execFileAsync = promisify(execFile);
+
+// Read-only git functions o3 can call while reasoning, e.g. to bisect an
+// "it was working yesterday" problem. Arguments are validated like the diff
+// parameters and passed to git with execFile, never through a shell. They
+// run in the request's repositories (repo_path).
+
+// Longest output returned to o3 from one call
+const MAX_OUTPUT_LINES = 2000;
+const MAX_LOG_ENTRIES = 200;
+
+// Values for --since/--until such as "2 weeks ago" or "2024-05-01"
+const datePattern = /^(?!-)[a-zA-Z0-9 :.,+-]+$/;
+
+function textResult(text: string, isError = false): ClaudeToolResult {
+  return {
+    content: [{ type: "text", text }],
+    ...(isError && { isError: true }),
+  };
+}
+
+function truncateLines(output: string): string {
+  const lines = output.split("\n");
+  if (lines.length <= MAX_OUTPUT_LINES) return output;
+  return `${lines.slice(0, MAX_OUTPUT_LINES).join("\n")}\n... (${
+    lines.length - MAX_OUTPUT_LINES
+  } more lines not shown; narrow the request with a path or line range)`;
+}
+
+// Run git in the given repository. noMatchOk treats exit code 1 as
+// "no results" (git grep).
+async function runGit(args: string[], cwd: string, noMatchOk = false): Promise<ClaudeToolResult> {
+  try {
+    const { stdout } = await execFileAsync("git", ["--no-pager", ...args], {
+      maxBuffer: 1024 * 1024 * 10,
+      cwd,
+    });
+    return textResult(stdout ? truncateLines(stdout) : "(no output)");
+  } catch (error: any) {
+    if (noMatchOk && error.code === 1 && !error.stderr) {
+      return textResult("No matches found");
+    }
+    return textResult(`git ${args[0]} failed: ${(error.stderr || error.message || "").trim()}`, true);
+  }
+}
+
+function validatePaths(path: string | undefined): string[] {
+  if (!path) return [];
+  validatePathspec(path);
+  return [path];
+}
+
+const repoParameter = z
+  .string()
+  .optional()
+  .describe("Root of the repository to use when the request covers several. Default: the first one");
+
+export function createGitTools(): RegisteredTool[] {
+  return [
+    defineTool({
+      name: "git_log",
+      description:
+        "Show commit history of the repository (hash, date, author, subject), newest first. Use it to find when and by whom something changed.",
+      source: "git",
+      schema: z.object({
+        path: z
+          .string()
+          .optional()
+          .describe("Only commits touching this path or glob, relative to the repository root"),
+        ref: z.string().optional().describe("Branch, tag or commit to start from. Default: HEAD"),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_LOG_ENTRIES)
+          .optional()
+          .describe(`Maximum number of commits (1-${MAX_LOG_ENTRIES}). Default: 20`),
+        since: z
+          .string()
+          .optional()
+          .describe("Only commits after this date, e.g. '2 days ago' or '2024-05-01'"),
+        stat: z.boolean().optional().describe("Include the files changed by each commit"),
+        repo: repoParameter,
+      }),
+      execute: async ({ path, ref, limit, since, stat, repo }, { workspaces }) => {
+        if (ref) validateRef(ref);
+        if (since && !datePattern.test(since)) {
+          throw new Error(`Invalid date: ${since}`);
+        }
+        return runGit(
+          [
+            "log",
+            "--no-color",
+            "--date=iso",
+            "--format=%h %ad %an%n    %s",
+            `--max-count=${limit ?? 20}`,
+            ...(since ? [`--since=${since}`] : []),
+            ...(stat ? ["--stat"] : []),
+            ref || "HEAD",
+            "--",
+            ...validatePaths(path),
+          ],
+          selectWorkspace(workspaces, repo)
+        );
+      },
+    }),
+    defineTool({
+      name: "git_show",
+      description: "Show one commit: its full message, author, date and changes.",
+      source: "git",
+      schema: z.object({
+        commit: z.string().describe("Commit hash, tag or ref such as 'HEAD~2'"),
+        path: z.string().optional().describe("Only show changes to this path or glob"),
+        repo: repoParameter,
+      }),
+      execute: async ({ commit, path, repo }, { workspaces }) => {
+        validateRef(commit);
+        return runGit(
+          [
+            "show",
+            "--no-color",
+            "--no-ext-diff",
+            "--pretty=fuller",
+            commit,
+            "--",
+            ...validatePaths(path),
+          ],
+          selectWorkspace(workspaces, repo)
+        );
+      },
+    }),
+    defineTool({
+      name: "git_blame",
+      description:
+        "Show which commit and author last changed each line in a range of a file.",
+      source: "git",
+      schema: z.object({
+        path: z.string().describe("File path relative to the repository root"),
+        start_line: z.number().int().min(1).describe("First line (1-based)"),
+        end_line: z.number().int().min(1).describe("Last line (inclusive)"),
+        ref: z.string().optional().describe("Blame the file as of this ref. Default: working tree"),
+        repo: repoParameter,
+      }),
+      execute: async ({ path, start_line, end_line, ref, repo }, { workspaces }) => {
+        if (end_line < start_line) {
+          throw new Error("end_line must not be before start_line");
+        }
+        if (ref) validateRef(ref);
+        return runGit(
+          [
+            "blame",
+            "--date=short",
+            `-L${start_line},${end_line}`,
+            ...(ref ? [ref] : []),
+            "--",
+            ...validatePaths(path),
+          ],
+          selectWorkspace(workspaces, repo)
+        );
+      },
+    }),
+    defineTool({
+      name: "git_diff",
+      description:
+        "Show the changes between two refs, or between a ref and the working tree when 'to' is omitted.",
+      source: "git",
+      schema: z.object({
+        from: z.string().describe("Base ref, e.g. 'main', 'HEAD~3' or a commit hash"),
+        to: z.string().optional().describe("Target ref. Default: the working tree"),
+        path: z.string().optional().describe("Only show changes to this path or glob"),
+        repo: repoParameter,
+      }),
+      execute: async ({ from, to, path, repo }, { workspaces }) => {
+        const result = await executeDiff({
+          from,
+          to,
+          paths: path ? [path] : [],
+          cwd: selectWorkspace(workspaces, repo),
+        });
+        return textResult(
+          result.content ? `${result.summary}\n\n${truncateLines(result.content)}` : "No changes"
+        );
+      },
+    }),
+    defineTool({
+      name: "git_grep",
+      description:
+        "Search tracked files for a regular expression, in the working tree or at a given ref. Returns matching lines with file and line number.",
+      source: "git",
+      schema: z.object({
+        pattern: z.string().describe("Extended regular expression"),
+        ref: z.string().optional().describe("Search the files as of this ref. Default: working tree"),
+        path: z.string().optional().describe("Only search this path or glob"),
+        ignore_case: z.boolean().optional(),
+        repo: repoParameter,
+      }),
+      execute: async ({ pattern, ref, path, ignore_case, repo }, { workspaces }) => {
+        if (ref) validateRef(ref);
+        return runGit(
+          [
+            "grep",
+            "--no-color",
+            "-n",
+            "-I",
+            "-E",
+            ...(ignore_case ? ["-i"] : []),
+            "-e",
+            pattern,
+            ...(ref ? [ref] : []),
+            "--",
+            ...validatePaths(path),
+          ],
+          selectWorkspace(workspaces, repo),
+          true
+        );
+      },
+    }),
+  ];
+}
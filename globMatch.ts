@@ -0,0 +1,61 @@
+// Minimal glob support for path policies: "*" matches within a path segment,
+// "**" matches across segments, "?" matches one character and "{a,b}" matches
+// alternatives.
+export function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" also matches zero directories
+        if (glob[i + 2] === "/") {
+          pattern += "(?:.*/)?";
+          i += 2;
+        } else {
+          pattern += ".*";
+          i += 1;
+        }
+      } else {
+        pattern += "[^/]*";
+      }
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else if (char === "{") {
+      const end = glob.indexOf("}", i);
+      if (end === -1) {
+        pattern += "\\{";
+      } else {
+        const alternatives = glob
+          .slice(i + 1, end)
+          .split(",")
+          .map((alternative) => globToRegExp(alternative).source.slice(1, -1));
+        pattern += `(?:${alternatives.join("|")})`;
+        i = end;
+      }
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+// Match a glob against an absolute path. Absolute globs must match the whole
+// path; relative globs match any trailing part of it, so ".env" matches every
+// .env file and ".git/**" matches everything inside any .git directory.
+export function matchesPathGlob(absolutePath: string, glob: string): boolean {
+  const normalizedPath = absolutePath.replace(/\\/g, "/");
+  const normalizedGlob = glob.replace(/\\/g, "/").replace(/\/$/, "/**");
+  const regex = globToRegExp(normalizedGlob);
+
+  if (normalizedGlob.startsWith("/")) {
+    return regex.test(normalizedPath);
+  }
+
+  const segments = normalizedPath.split("/").filter(Boolean);
+  for (let i = 0; i < segments.length; i++) {
+    if (regex.test(segments.slice(i).join("/"))) {
+      return true;
+    }
+  }
+  return false;
+}
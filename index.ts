@@ -1,14 +1,81 @@
 #!/usr/bin/env node
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import OpenAI from "openai";
-import type { ResponseInputItem } from "openai/resources/responses/responses.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type {
+  ResponseInputContent,
+  ResponseInputImage,
+  ResponseInputItem,
+} from "openai/resources/responses/responses.js";
 import { z } from "zod";
-import { readFile } from "fs/promises";
 import path from "path";
-import { execFile } from "child_process";
-import { promisify } from "util";
-import { ConversationStore } from "./conversationStore.js";
+import {
+  ConversationStore,
+  type ConversationEntry,
+  type TurnAudit,
+  validateConversationId,
+} from "./conversationStore.js";
+import {
+  executeDiff,
+  hasDiffRequest,
+  resolveDiffCommits,
+  type DiffCommits,
+} from "./gitDiff.js";
+import {
+  REVIEW_RESPONSE_FORMAT,
+  formatNumberedDiff,
+  formatReview,
+  parseUnifiedDiff,
+  toGitHubReview,
+  toGitLabDiscussions,
+  validateReview,
+  type DiffFile,
+} from "./codeReview.js";
+import { FileOverlay } from "./fileOverlay.js";
+import { toDataUrl } from "./mediaTypes.js";
+import {
+  formatFileInputsReport,
+  loadFileInputLimits,
+  readFileInputs,
+} from "./fileInputs.js";
+import {
+  addUsage,
+  checkSpendCaps,
+  emptyUsage,
+  findModelPrice,
+  formatCost,
+  formatUsage,
+  loadPriceTable,
+  loadSpendCaps,
+  priceUsage,
+  type TurnUsage,
+} from "./usage.js";
+import {
+  ConfirmationManager,
+  loadConfirmationConfig,
+} from "./confirmation.js";
+import {
+  checkToolCall,
+  filterToolResult,
+  describeSandboxPolicy,
+  loadSandboxPolicy,
+} from "./sandboxPolicy.js";
+import {
+  createOpenAIClient,
+  createResponse,
+  isContextLengthExceeded,
+  isMissingPreviousResponse,
+} from "./openaiProvider.js";
+import {
+  createLlmSummarizer,
+  truncatingSummarizer,
+  type SummaryMode,
+} from "./contextSummarizer.js";
+import {
+  createProgressReporter,
+  describeToolCall,
+  describeWebSearch,
+} from "./progress.js";
 import {
   startClaudeSupervision,
   stopClaudeSupervision,
@@ -21,9 +88,59 @@ import {
   writeFile,
   runBash,
   grepFiles,
+  getToolBackend,
 } from "./claudeTools.js";
-
-const execFileAsync = promisify(execFile);
+import { ToolRegistry } from "./toolRegistry.js";
+import { resolveWorkspaces, selectWorkspace } from "./workspaces.js";
+import { JobManager, type Job, type JobContext } from "./jobs.js";
+import {
+  BUILTIN_RESPONSE_FORMAT_NAMES,
+  parseStructuredResponse,
+  resolveResponseFormat,
+  toTextFormat,
+} from "./responseFormats.js";
+import {
+  annotateOutputText,
+  formatSources,
+  type SourceCitation,
+} from "./citations.js";
+import { createBuiltinTools } from "./builtinTools.js";
+import { createGitTools } from "./gitTools.js";
+import {
+  closeMcpToolSources,
+  registerMcpToolSources,
+} from "./mcpToolSources.js";
+
+// Upper bound for the per-request max_depth parameter
+const MAX_DEPTH_LIMIT = 100;
+
+// Longest tool output kept in a turn's audit trail
+const MAX_AUDIT_OUTPUT_LENGTH = 2000;
+
+function formatAudit(index: number, entry: ConversationEntry): string {
+  const audit = entry.audit;
+  let text = `### Entry ${index + 1} (${entry.timestamp})\n`;
+  text += `Query: ${entry.input.replace(/\s+/g, " ").slice(0, 200)}\n`;
+  if (!audit) {
+    return `${text}No audit trail recorded.\n`;
+  }
+  if (audit.dryRun) text += "Dry run: yes\n";
+  if (audit.previousResponseId) {
+    text += `Continued from response: ${audit.previousResponseId}\n`;
+  }
+  if (audit.diffCommand) text += `Diff command: \`${audit.diffCommand}\`\n`;
+  if (audit.responseIds.length > 0) {
+    text += `Response IDs: ${audit.responseIds.join(", ")}\n`;
+  }
+  for (const search of audit.webSearches) {
+    text += `- ${search}\n`;
+  }
+  for (const call of audit.toolCalls) {
+    text += `- ${call.isError ? "✗" : "✓"} ${call.name} ${call.arguments} (call_id: ${call.callId}, ${call.durationMs}ms, ${call.startedAt})\n`;
+    text += `  ${call.output.replace(/\n/g, "\n  ")}\n`;
+  }
+  return text;
+}
 
 async function setupServer() {
   // Create server instance
@@ -32,17 +149,15 @@ async function setupServer() {
     version: "0.1.0",
   });
 
-  // Initialize OpenAI client
-  if (!process.env.OPENAI_API_KEY) {
-    process.stderr.write(
-      "Error: OPENAI_API_KEY environment variable is required\n"
-    );
+  // Initialize OpenAI (or OpenAI-compatible) client
+  let openaiClient: ReturnType<typeof createOpenAIClient>;
+  try {
+    openaiClient = createOpenAIClient();
+  } catch (error) {
+    process.stderr.write(`Error: ${(error as Error).message}\n`);
     process.exit(1);
   }
-
-  const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
+  const { openai, config: providerConfig } = openaiClient;
 
   // Initialize conversation store
   const conversationStore = new ConversationStore();
@@ -50,6 +165,18 @@ async function setupServer() {
   // Wait for conversation store to initialize
   await new Promise((resolve) => setTimeout(resolve, 100));
 
+  // Background jobs started with async: true
+  const jobManager = new JobManager();
+  const backgroundPollIntervalMs =
+    parseInt(process.env.BACKGROUND_POLL_INTERVAL_MS || "", 10) || 2000;
+  try {
+    await jobManager.load();
+  } catch (error) {
+    process.stderr.write(
+      `[DEBUG] Failed to load jobs: ${error instanceof Error ? error.message : String(error)}\n`
+    );
+  }
+
   // Generate unique default conversation ID for this server session
   const defaultConversationId = `default_${Date.now()}_${Math.random()
     .toString(36)
@@ -71,93 +198,87 @@ async function setupServer() {
     ? (process.env.REASONING_EFFORT as "low" | "medium" | "high")
     : "medium";
 
-  // Git diff analysis function
-  async function executeDiff(
-    from: string,
-    to?: string,
-    unstaged?: boolean
-  ): Promise<{
-    content: string;
-    summary: string;
-    command: string;
-    lineCount: number;
-  }> {
-    // Validate git refs to prevent command injection and option injection
-    const refPattern = /^(?!-)[a-zA-Z0-9/_.\-~^]+$/;
-    if (!refPattern.test(from)) {
-      throw new Error(`Invalid git reference format: ${from}`);
-    }
-    if (to && !refPattern.test(to)) {
-      throw new Error(`Invalid git reference format: ${to}`);
-    }
-
-    // Build git diff arguments array
-    const args = ["--no-pager", "diff", "--no-ext-diff", "--no-color"];
-
-    if (to) {
-      // Compare between two refs
-      args.push(from, to);
-    } else {
-      // Compare from ref to working directory
-      const shouldIncludeUnstaged = unstaged !== false; // Default to true when to is not specified
-
-      if (shouldIncludeUnstaged) {
-        // Include unstaged changes: compare from ref to working directory
-        args.push(from);
-        // Add -- to separate refs from paths (only for working directory comparison)
-        args.push("--");
-      } else {
-        // Exclude unstaged changes: compare from ref to HEAD
-        args.push(from, "HEAD");
-      }
-    }
+  const parsedMaxDepth = parseInt(process.env.MAX_DEPTH || "", 10);
+  const defaultMaxDepth =
+    parsedMaxDepth >= 1 && parsedMaxDepth <= MAX_DEPTH_LIMIT
+      ? parsedMaxDepth
+      : 30; // Maximum iterations for complex tasks
+
+  // Token usage pricing and optional spend caps
+  const priceTable = loadPriceTable();
+  const modelPrice = findModelPrice(priceTable, providerConfig.model);
+  const spendCaps = loadSpendCaps();
+  if (!modelPrice) {
+    process.stderr.write(
+      `[DEBUG] No price known for model ${providerConfig.model}; costs will be reported as unknown\n`
+    );
+  }
 
-    // Execute git diff
-    const { stdout, stderr } = await execFileAsync("git", args, {
-      maxBuffer: 1024 * 1024 * 10, // 10MB buffer
-      cwd: process.cwd(),
-    });
+  // Conversation context budget and summarization of older turns
+  const validSummaryModes = ["llm", "truncate", "off"] as const;
 
-    const command = `git ${args.join(" ")}`;
+  const summaryMode: SummaryMode = validSummaryModes.includes(
+    process.env.CONTEXT_SUMMARY_MODE as any
+  )
+    ? (process.env.CONTEXT_SUMMARY_MODE as SummaryMode)
+    : "llm";
+
+  const contextTokenBudget =
+    parseInt(process.env.CONTEXT_TOKEN_BUDGET || "", 10) || 16000;
+  const contextSummaryTokens = Math.min(
+    parseInt(process.env.CONTEXT_SUMMARY_TOKENS || "", 10) || 2000,
+    Math.floor(contextTokenBudget / 2)
+  );
 
-    if (stderr && !stderr.includes("warning")) {
-      throw new Error(`Git diff failed: ${stderr}`);
-    }
+  const contextSummaryModel =
+    process.env.CONTEXT_SUMMARY_MODEL || providerConfig.model;
+  const contextSummarizer =
+    summaryMode === "llm"
+      ? createLlmSummarizer(
+          openai,
+          contextSummaryModel,
+          findModelPrice(priceTable, contextSummaryModel)
+        )
+      : summaryMode === "truncate"
+      ? truncatingSummarizer
+      : undefined;
+
+  // How earlier turns reach the model: "response_id" continues from the
+  // previous turn's stored response (falling back to text replay when it is
+  // gone or the chain outgrew the context window), "text" always replays
+  // them in the prompt
+  const validContinuityModes = ["response_id", "text"] as const;
+  const continuityMode: (typeof validContinuityModes)[number] =
+    validContinuityModes.includes(process.env.CONVERSATION_CONTINUITY as any)
+      ? (process.env.CONVERSATION_CONTINUITY as (typeof validContinuityModes)[number])
+      : "response_id";
+
+  // Sandbox policy for file and shell tools invoked by o3
+  const sandboxPolicy = loadSandboxPolicy();
+  process.stderr.write(
+    `[DEBUG] Sandbox policy: ${describeSandboxPolicy(sandboxPolicy)}\n`
+  );
 
-    const diffContent = stdout;
-    const lines = diffContent.split("\n");
-    const lineCount = lines.length;
+  // Limits for files added through file_paths
+  const fileInputLimits = loadFileInputLimits();
 
-    // Check size limit (10,000 lines)
-    if (lineCount > 10000) {
-      throw new Error(`Diff too large (${lineCount} lines, limit: 10,000). Consider:
-- Specifying a smaller commit range
-- Adding file paths to limit scope
-- Breaking down the analysis into smaller parts`);
-    }
+  // Human confirmation for mutating tool calls made by o3
+  const confirmationManager = new ConfirmationManager(
+    server.server,
+    loadConfirmationConfig()
+  );
 
-    // Generate summary - exclude file headers (+++/---) and count only actual content lines
-    const addedLines = lines.filter(
-      (line) => line.startsWith("+") && !line.startsWith("+++")
-    ).length;
-    const removedLines = lines.filter(
-      (line) => line.startsWith("-") && !line.startsWith("---")
-    ).length;
-    const changedFiles = new Set(
-      lines
-        .filter((line) => line.startsWith("diff --git"))
-        .map((line) => line.split(" ")[3]?.replace("b/", "") || "")
-        .filter(Boolean)
-    ).size;
-
-    const summary = `${changedFiles} files changed, ${addedLines} insertions(+), ${removedLines} deletions(-)`;
-
-    return {
-      content: diffContent,
-      summary: summary,
-      command: command,
-      lineCount: lineCount,
-    };
+  // Function tools o3 can call: the built-in claude_* and git_* tools plus tools
+  // from external MCP servers (MCP_TOOL_SERVERS / MCP_TOOL_SERVERS_FILE)
+  const toolRegistry = new ToolRegistry();
+  for (const tool of [...createBuiltinTools(), ...createGitTools()]) {
+    toolRegistry.register(tool);
+  }
+  try {
+    await registerMcpToolSources(toolRegistry);
+  } catch (error) {
+    process.stderr.write(`Error: ${(error as Error).message}\n`);
+    process.exit(1);
   }
 
   // Define the o3-search tool
@@ -178,6 +299,15 @@ Git diff analysis:
 - Identify what broke after refactoring or changes
 - Automatic detection of common issues like missing error handling, broken dependencies
 - Simply provide 'from' parameter to enable diff analysis
+- Narrow the diff with 'staged', 'commit', 'merge_base' and 'paths'
+- With review: true, returns line-anchored review comments checked against the diff's hunks, ready to post as GitHub/GitLab review comments
+
+Dry run:
+- With dry_run: true, o3's file edits are kept in memory instead of written to disk
+- The answer ends with a unified diff of all proposed changes to review and apply yourself
+
+Background jobs:
+- With async: true, returns a job ID at once; poll job-status and fetch the answer with job-result
 
 Default behavior:
 - Without conversation_id: Uses a default conversation that persists across all calls
@@ -201,7 +331,7 @@ Perfect for:
         .array(z.string())
         .optional()
         .describe(
-          "Optional array of ABSOLUTE file paths to analyze. MUST use absolute paths (starting with / on Unix or C:\\ on Windows). Relative paths are NOT supported. The server will automatically read these files and include their contents in the analysis. Supports any text-based files (code, config, docs, etc.). Example: ['/Users/name/project/file1.ts', '/home/user/code/file2.py', 'C:\\\\projects\\\\config.json']"
+          "Optional array of ABSOLUTE file paths, directories or glob patterns to analyze (use absolute paths, starting with / on Unix or C:\\ on Windows). The server reads the files and includes their contents in the analysis. Directories and globs ('*', '**', '?', '{a,b}') are expanded respecting .gitignore. Binary files are skipped, and large files are truncated within a total byte budget. The answer lists which files were included and which were skipped. Example: ['/Users/name/project/src/app.ts', '/Users/name/project/docs', '/Users/name/project/src/**/*.test.ts']"
         ),
       conversation_id: z
         .string()
@@ -209,6 +339,12 @@ Perfect for:
         .describe(
           "Optional conversation ID to use. If not provided, uses the default conversation that persists across all calls."
         ),
+      repo_path: z
+        .union([z.string(), z.array(z.string())])
+        .optional()
+        .describe(
+          "ABSOLUTE path of the git repository this request is about, or several paths to compare across repositories. The diff runs in each of them, and claude_ls, claude_grep and the git_* tools default to the first. Default: the server's working directory. Example: '/Users/name/project' or ['/Users/name/api', '/Users/name/web']"
+        ),
       from: z
         .string()
         .optional()
@@ -227,34 +363,291 @@ Perfect for:
         .describe(
           "Whether to include unstaged changes in diff analysis. Defaults to true when 'to' is not specified, false otherwise."
         ),
+      staged: z
+        .boolean()
+        .optional()
+        .describe(
+          "Analyze only staged changes (git diff --cached). Compares the index against 'from' (default: HEAD). Cannot be combined with 'to' or 'merge_base'."
+        ),
+      commit: z
+        .string()
+        .optional()
+        .describe(
+          "Analyze a single commit's own changes, like 'git show'. Cannot be combined with 'from', 'to', 'staged' or 'merge_base'. Example: 'abc123', 'HEAD~2'"
+        ),
+      merge_base: z
+        .boolean()
+        .optional()
+        .describe(
+          "Compare 'to' (default: HEAD) against its merge base with 'from' (git diff from...to), showing only the changes a pull request would show."
+        ),
+      paths: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Optional pathspecs limiting the diff, relative to the repository root. Globs are supported and ':!' excludes. Example: ['src/api/**', ':!**/*.test.ts']"
+        ),
+      review: z
+        .boolean()
+        .optional()
+        .describe(
+          "Review the diff instead of answering in prose. o3 returns findings tied to new-side line numbers; each is checked against the diff's hunks. The result lists the comments by file and includes a GitHub pull request review and GitLab merge request discussions ready to post. Requires 'from', 'commit' or 'staged'; cannot be combined with 'response_format'. Default: false"
+        ),
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe(
+          "Propose changes instead of making them. File edits and writes by o3 are applied to an in-memory copy (later reads in the same run see them), shell commands are disabled, and the response ends with a unified diff of every proposed change. Default: false"
+        ),
+      reasoning_effort: z
+        .enum(validReasoningEfforts)
+        .optional()
+        .describe(
+          `Reasoning effort for this request: 'low' for quick, trivial questions, 'high' for hard debugging. Default: ${reasoningEffort} (REASONING_EFFORT)`
+        ),
+      web_search: z
+        .boolean()
+        .optional()
+        .describe(
+          "Whether o3 may search the web. Set to false for questions about private code. Default: true"
+        ),
+      search_context_size: z
+        .enum(validSearchContextSizes)
+        .optional()
+        .describe(
+          `How much web search context to retrieve. Default: ${searchContextSize} (SEARCH_CONTEXT_SIZE)`
+        ),
+      max_depth: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_DEPTH_LIMIT)
+        .optional()
+        .describe(
+          `Maximum number of reasoning/tool stages for this request. Default: ${defaultMaxDepth} (MAX_DEPTH)`
+        ),
+      tools: z
+        .array(z.string())
+        .optional()
+        .describe(
+          `Subset of function tools o3 may use in this request. Example: ['claude_view', 'claude_grep'] for read-only investigation. Default: all tools. Pass [] to disable them. Available: ${toolRegistry
+            .names()
+            .join(", ")}`
+        ),
+      response_format: z
+        .union([
+          z.enum(BUILTIN_RESPONSE_FORMAT_NAMES),
+          z.record(z.string(), z.unknown()),
+        ])
+        .optional()
+        .describe(
+          `Return the final answer as JSON matching a schema instead of markdown. Built-in: ${BUILTIN_RESPONSE_FORMAT_NAMES.join(
+            ", "
+          )}. Or pass a JSON Schema object (root type "object"), optionally wrapped as {name, schema, strict, description}. The validated JSON is the first content item; schema violations are reported as an error.`
+        ),
+      async: z
+        .boolean()
+        .optional()
+        .describe(
+          "Run in the background and return a job ID immediately instead of waiting for the answer. Use for long, high-effort runs that may outlast the client's request timeout, then poll with job-status and fetch the answer with job-result. Default: false"
+        ),
     },
-    async ({ input, file_paths, conversation_id, from, to, unstaged }) => {
+    // Named so a background job can run the same request again
+    async function askO3(
+      params,
+      extra,
+      job?: JobContext
+    ): Promise<CallToolResult> {
+      const {
+        input,
+        file_paths,
+        conversation_id,
+        repo_path,
+        from,
+        to,
+        unstaged,
+        staged,
+        commit,
+        merge_base,
+        paths,
+        review,
+        dry_run,
+        reasoning_effort,
+        web_search,
+        search_context_size,
+        max_depth,
+        tools: requestedTools,
+        response_format,
+        async: runAsync,
+      } = params;
+      const reportProgress = job
+        ? job.reportProgress
+        : createProgressReporter(extra);
+      // Aborted when the client cancels the request, or job-cancel stops
+      // the job. The tool loop then stops at the next stage or tool call.
+      const signal = job?.signal ?? extra.signal;
       try {
         // Use provided conversation ID or default
         const convId = conversation_id || defaultConversationId;
+        validateConversationId(convId);
+
+        if (review && response_format) {
+          throw new Error("'review' cannot be combined with 'response_format'");
+        }
+        const responseFormat = review
+          ? REVIEW_RESPONSE_FORMAT
+          : response_format
+            ? resolveResponseFormat(response_format)
+            : null;
+
+        const unknownTools = (requestedTools ?? []).filter(
+          (name) => !toolRegistry.get(name)
+        );
+        if (unknownTools.length > 0) {
+          throw new Error(
+            `Unknown tool(s): ${unknownTools.join(", ")}. Available: ${toolRegistry
+              .names()
+              .join(", ")}`
+          );
+        }
+
+        // Long runs can outlive the client's request timeout: run this one
+        // as a background job and return its ID right away
+        if (runAsync && !job) {
+          const started = await jobManager.start(convId, input, (context) =>
+            askO3({ ...params, async: false }, extra, context)
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Started background job ${started.id}.\n\nCheck on it with job-status and get the answer with job-result (job_id: "${started.id}"). Cancel it with job-cancel.`,
+              },
+              {
+                type: "text",
+                text: `\n\n---\nConversation ID: ${convId}`,
+              },
+            ],
+            structuredContent: { jobId: started.id, status: started.status },
+          };
+        }
+
+        // Token usage and cost of this turn, per stage
+        const turnUsage: TurnUsage = { ...emptyUsage(), stages: [] };
 
         // Get conversation history if it exists
         const conversation = conversationStore.getConversation(convId);
-        const conversationContext = !conversation
+        const buildConversationContext = async () =>
+          !conversation
+            ? ""
+            : await conversationStore.getConversationContext(conversation, {
+                tokenBudget: contextTokenBudget,
+                summaryTokens: contextSummaryTokens,
+                summarizer: contextSummarizer,
+                signal,
+                // Summaries are paid for by this turn and count toward the caps
+                onSummaryUsage: (usage) => {
+                  (turnUsage.summaries ??= []).push(usage);
+                  addUsage(turnUsage, usage);
+                },
+              });
+
+        // Continue from the previous turn's response when there is one;
+        // otherwise replay earlier turns as text
+        let chainResponseId =
+          continuityMode === "response_id" && conversation
+            ? conversationStore.getLastResponseId(conversation)
+            : undefined;
+        const conversationContext = chainResponseId
           ? ""
-          : conversationStore.getConversationContext(conversation);
+          : await buildConversationContext();
+
+        // Execute git diff analysis if 'from', 'commit' or 'staged' is provided
+        const diffOptions = {
+          from,
+          to,
+          unstaged,
+          staged,
+          commit,
+          mergeBase: merge_base,
+          paths,
+        };
+        // Structured record of this turn's tool activity
+        const audit: TurnAudit = {
+          toolCalls: [],
+          webSearches: [],
+          responseIds: [],
+          ...(dry_run && { dryRun: true }),
+        };
+
+        if (review && !hasDiffRequest(diffOptions)) {
+          throw new Error("'review' requires a diff: set 'from', 'commit' or 'staged'");
+        }
+
+        // Repositories this request is about; diffs and the repository tools
+        // run there instead of in the server's working directory
+        const workspaces = repo_path
+          ? await resolveWorkspaces(
+              Array.isArray(repo_path) ? repo_path : [repo_path]
+            )
+          : [];
+        if (review && workspaces.length > 1) {
+          throw new Error("'review' works on one repository at a time");
+        }
 
-        // Execute git diff analysis if 'from' is provided
         let diffAnalysis: string = "";
-        if (from) {
+        // Review mode: the parsed diff that comments are checked against
+        let reviewFiles: DiffFile[] | null = null;
+        let reviewCommits: DiffCommits = {};
+        if (hasDiffRequest(diffOptions)) {
           try {
-            const diffResult = await executeDiff(from, to, unstaged);
-            diffAnalysis = `
-## Git Diff Analysis
+            await reportProgress("Running git diff");
+            const diffResults = [];
+            for (const cwd of workspaces.length > 0 ? workspaces : [undefined]) {
+              diffResults.push(await executeDiff({ ...diffOptions, cwd }));
+            }
+            audit.diffCommand = diffResults
+              .map((result) => result.command)
+              .join("; ");
+            const diffResult = diffResults[0]!;
+            if (review) {
+              reviewFiles = parseUnifiedDiff(diffResult.content);
+              reviewCommits = await resolveDiffCommits({
+                ...diffOptions,
+                cwd: workspaces[0],
+              });
+              diffAnalysis = `
+## Code Review
 
 **Command executed:** \`${diffResult.command}\`
 **Summary:** ${diffResult.summary}
 
+### Changes (new-side line numbers on the left):
+${formatNumberedDiff(reviewFiles)}
+
+**Review Instructions:**
+Review these changes like a careful senior engineer reviewing a pull request. Report each problem as a comment on the new-side line number shown on the left of the diff, using the file path from the section heading. Only lines shown with a number can take comments; use start_line for problems spanning several lines of the same hunk. Skip praise and restating the change.
+
+`;
+            } else {
+              // One section per repository when comparing across several
+              diffAnalysis = `
+## Git Diff Analysis
+${diffResults
+  .map(
+    (result, index) => `${
+      diffResults.length > 1 ? `\n### Repository: ${workspaces[index]}\n` : ""
+    }
+**Command executed:** \`${result.command}\`
+**Summary:** ${result.summary}
+
 ### Code Changes:
 \`\`\`diff
-${diffResult.content}
+${result.content}
 \`\`\`
-
+`
+  )
+  .join("")}
 **Analysis Instructions:**
 The above diff shows code changes that may be related to the reported issue. Please:
 1. Identify what functionality was added, modified, or removed
@@ -263,6 +656,7 @@ The above diff shows code changes that may be related to the reported issue. Ple
 4. Suggest specific fixes if problems are identified
 
 `;
+            }
           } catch (diffError) {
             // Return error directly to user as requested
             return {
@@ -272,48 +666,61 @@ The above diff shows code changes that may be related to the reported issue. Ple
                   text: `Error: ${(diffError as Error).message}`,
                 },
               ],
+              isError: true,
             };
           }
         }
 
-        // Read file contents if file_paths are provided
+        // Read file contents if file_paths are provided, expanding
+        // directories and globs within the byte budget
         let fileContents = "";
-        if (file_paths && file_paths.length > 0) {
-          for (const filePath of file_paths) {
-            try {
-              const content = await readFile(filePath, "utf-8");
-              fileContents += `
-## File: ${filePath}
+        const fileInputs =
+          file_paths && file_paths.length > 0
+            ? await readFileInputs(
+                file_paths,
+                fileInputLimits,
+                sandboxPolicy.deniedPaths
+              )
+            : null;
+        for (const file of fileInputs?.included ?? []) {
+          fileContents += `
+## File: ${file.path}${
+            file.truncated
+              ? ` (truncated to the first ${file.bytes} of ${file.totalBytes} bytes)`
+              : ""
+          }
 \`\`\`
-${content}
+${file.content}
 \`\`\`
 
 `;
-            } catch (error) {
-              fileContents += `
-## File: ${filePath}
-Error reading file: ${error instanceof Error ? error.message : "Unknown error"}
-
-`;
-            }
-          }
         }
 
+        // Dry runs collect o3's file changes in memory instead of on disk
+        const overlay = dry_run ? new FileOverlay() : null;
+
         const systemPrompt = `他のAIからの相談に正確に答えてください。必要に応じてツールを使用し、その結果を踏まえて回答を提供してください。${
           diffAnalysis
             ? "Git差分が提供されている場合は、その内容を踏まえて回答を提供してください。"
             : ""
+        }${
+          overlay
+            ? "これはドライランです。claude_edit/claude_writeによる変更はディスクに書き込まれず、変更案としてユーザーに提示されます。コマンドは実行できません。"
+            : ""
+        }${
+          responseFormat
+            ? "必要に応じてツールを使用した後、最終回答は指定されたJSONスキーマに従うJSONのみで出力してください。"
+            : ""
         }`;
 
         // Prepare initial input items for first call only
+        const userMessage = (context: string): ResponseInputItem => ({
+          type: "message",
+          role: "user",
+          content: [{ type: "input_text", text: `${context}${input}` }],
+        });
         const initialInputItems: ResponseInputItem[] = [
-          {
-            type: "message",
-            role: "user",
-            content: [
-              { type: "input_text", text: `${conversationContext}${input}` },
-            ],
-          },
+          userMessage(conversationContext),
         ];
 
         // Add diff analysis as a system message if present
@@ -325,6 +732,22 @@ Error reading file: ${error instanceof Error ? error.message : "Unknown error"}
           });
         }
 
+        // Tell o3 where the repositories are so it can point tools at them
+        if (workspaces.length > 0) {
+          initialInputItems.push({
+            type: "message",
+            role: "system",
+            content: [
+              {
+                type: "input_text",
+                text: `## Repositories:\n${workspaces
+                  .map((root, index) => `- ${root}${index === 0 ? " (default)" : ""}`)
+                  .join("\n")}\n\nclaude_ls, claude_grep and the git_* tools run in the default repository unless given another path or repo.`,
+              },
+            ],
+          });
+        }
+
         // Add file contents as a system message if present
         if (fileContents) {
           initialInputItems.push({
@@ -336,153 +759,100 @@ Error reading file: ${error instanceof Error ? error.message : "Unknown error"}
           });
         }
 
+        // Images and PDFs go in a user message as native inputs, each
+        // preceded by its path
+        if (fileInputs && fileInputs.attachments.length > 0) {
+          const attachmentContent: ResponseInputContent[] = [];
+          for (const file of fileInputs.attachments) {
+            attachmentContent.push({ type: "input_text", text: `## File: ${file.path}` });
+            attachmentContent.push(
+              file.kind === "image"
+                ? {
+                    type: "input_image",
+                    detail: "auto",
+                    image_url: toDataUrl(file.mimeType, file.data),
+                  }
+                : {
+                    type: "input_file",
+                    filename: path.basename(file.path),
+                    file_data: toDataUrl(file.mimeType, file.data),
+                  }
+            );
+          }
+          initialInputItems.push({
+            type: "message",
+            role: "user",
+            content: attachmentContent,
+          });
+        }
+
         process.stderr.write(
-          `[DEBUG] About to call OpenAI API with model: o3\n`
+          `[DEBUG] About to call ${providerConfig.provider} API with model: ${providerConfig.model}\n`
         );
 
-        // Define tools for o3 - separate web search and function tools for better type safety
+        // Read-only mode hides mutating tools from o3 entirely; dry runs
+        // can't contain side effects outside the overlay, so they hide
+        // mutating tools that can't write to it (claude_bash, external tools)
+        const functionTools = toolRegistry.list().filter(
+          (tool) =>
+            !(sandboxPolicy.readOnly && tool.mutating) &&
+            !(overlay && tool.mutating && !tool.supportsDryRun) &&
+            (!requestedTools || requestedTools.includes(tool.name))
+        );
         const tools: any[] = [
-          {
-            type: "web_search_preview",
-            search_context_size: searchContextSize,
-          },
-          {
-            type: "function",
-            name: "claude_view",
-            description: "Read and display the contents of a file. Use this to examine existing files before making modifications.",
-            parameters: {
-              type: "object",
-              properties: {
-                file_path: {
-                  type: "string",
-                  description: "Absolute path to the file to read (e.g., '/Users/name/project/file.txt')",
-                },
-              },
-              required: ["file_path"],
-              additionalProperties: false,
-            },
-            strict: true,
-          },
-          {
-            type: "function",
-            name: "claude_edit",
-            description:
-              "Edit an existing file by replacing exact text strings. IMPORTANT: Read the file first with claude_view to see its current contents.",
-            parameters: {
-              type: "object",
-              properties: {
-                file_path: {
-                  type: "string",
-                  description: "Absolute path to the file to edit",
-                },
-                old_string: {
-                  type: "string",
-                  description: "The exact text to find and replace (must match exactly, including whitespace)",
-                },
-                new_string: {
-                  type: "string",
-                  description: "The replacement text",
-                },
-              },
-              required: ["file_path", "old_string", "new_string"],
-              additionalProperties: false,
-            },
-            strict: true,
-          },
-          {
-            type: "function",
-            name: "claude_ls",
-            description: "List files and directories in the current working directory. Use this to explore the project structure.",
-            parameters: {
-              type: "object",
-              properties: {},
-              required: [],
-              additionalProperties: false,
-            },
-            strict: true,
-          },
-          {
-            type: "function",
-            name: "claude_write",
-            description:
-              "Create a new file. SECURITY: Ask user for confirmation first, then call again with confirm='yes'.",
-            parameters: {
-              type: "object",
-              properties: {
-                file_path: {
-                  type: "string",
-                  description: "Absolute path where to create the new file",
-                },
-                content: {
-                  type: "string",
-                  description: "Content to write to the file",
-                },
-                confirm: {
-                  type: "string",
-                  enum: ["yes"],
-                  description:
-                    "MUST be 'yes' to create the file. First ask user for permission, then set this to 'yes'.",
-                },
-              },
-              required: ["file_path", "content", "confirm"],
-              additionalProperties: false,
-            },
-            strict: true,
-          },
-          {
-            type: "function",
-            name: "claude_bash",
-            description:
-              "Execute a bash command. SECURITY: Ask user for confirmation first, then call again with confirm='yes'.",
-            parameters: {
-              type: "object",
-              properties: {
-                command: {
-                  type: "string",
-                  description: "Bash command to execute (e.g., 'npm install', 'git status')",
-                },
-                confirm: {
-                  type: "string",
-                  enum: ["yes"],
-                  description:
-                    "MUST be 'yes' to execute the command. First ask user for permission, then set this to 'yes'.",
-                },
-              },
-              required: ["command", "confirm"],
-              additionalProperties: false,
-            },
-            strict: true,
-          },
-          {
-            type: "function",
-            name: "claude_grep",
-            description: "Search for text patterns across files in the project. Uses regular expressions.",
-            parameters: {
-              type: "object",
-              properties: {
-                pattern: {
-                  type: "string",
-                  description: "Regular expression pattern to search for (e.g., 'function.*test', 'import.*react')",
+          ...(web_search !== false
+            ? [
+                {
+                  type: "web_search_preview",
+                  search_context_size: search_context_size || searchContextSize,
                 },
-              },
-              required: ["pattern"],
-              additionalProperties: false,
-            },
-            strict: true,
-          },
+              ]
+            : []),
+          ...toolRegistry.toFunctionTools(functionTools),
         ];
+        const exposedFunctions = new Set(functionTools.map((tool) => tool.name));
 
         // N-stage loop: Continue until text response is returned
         let responseText = "";
+        // Web pages cited in the final answer
+        let sources: SourceCitation[] = [];
         let allToolResults: string[] = [];
         let depth = 0;
-        const maxDepth = 30; // Maximum iterations for complex tasks
-        let lastResponseId: string | undefined; // Store previous response ID for conversation continuity
+        const maxDepth = max_depth ?? defaultMaxDepth;
+        let lastResponseId: string | undefined = chainResponseId; // Store previous response ID for conversation continuity
+        // Response that ended this turn with an answer, for the next turn
+        let finalResponseId: string | undefined;
         let previousToolOutputItems: ResponseInputItem[] = []; // Store tool outputs from previous iteration
 
+        // Set when the loop stopped because signal was aborted
+        let cancelled = false;
+
         while (depth < maxDepth) {
           depth++;
+
+          if (signal.aborted) {
+            cancelled = true;
+            break;
+          }
+
+          // Stop cleanly before spending more once a cap is reached
+          const capReason = checkSpendCaps(
+            spendCaps,
+            conversationStore.getConversationCost(convId) +
+              (turnUsage.costUsd ?? 0),
+            (conversationStore.getDailyUsage()?.costUsd ?? 0) +
+              (turnUsage.costUsd ?? 0)
+          );
+          if (capReason) {
+            process.stderr.write(`[DEBUG] Stage ${depth}: ${capReason}\n`);
+            responseText = `Stopped before stage ${depth}: ${capReason}. Raise MAX_COST_PER_CONVERSATION_USD / MAX_COST_PER_DAY_USD or try again later.`;
+            break;
+          }
+
           process.stderr.write(`[DEBUG] Stage ${depth}: Making API call\n`);
+          await reportProgress(
+            `Stage ${depth}/${maxDepth}: waiting for ${providerConfig.model}`
+          );
 
           // Determine input items based on iteration
           // First iteration: send initial user/system messages
@@ -493,22 +863,84 @@ Error reading file: ${error instanceof Error ? error.message : "Unknown error"}
             `[DEBUG] Input items count: ${inputItems.length}\n`
           );
 
-          const response = await openai.responses.create({
-            model: "o3",
-            instructions: systemPrompt, // Move system prompt to instructions
-            input: inputItems, // Use appropriate items for each iteration
-            tools: tools,
-            tool_choice: "auto",
-            parallel_tool_calls: true,
-            reasoning: { effort: reasoningEffort },
-            ...(lastResponseId && { previous_response_id: lastResponseId }), // Include previous response context
-          });
+          const createStageResponse = (items: ResponseInputItem[]) =>
+            createResponse(openai, {
+              model: providerConfig.model,
+              instructions: systemPrompt, // Move system prompt to instructions
+              input: items, // Use appropriate items for each iteration
+              ...(tools.length > 0 && {
+                tools: tools,
+                tool_choice: "auto",
+                parallel_tool_calls: true,
+              }),
+              reasoning: { effort: reasoning_effort || reasoningEffort },
+              ...(responseFormat && {
+                text: { format: toTextFormat(responseFormat) },
+              }),
+              ...(lastResponseId && { previous_response_id: lastResponseId }), // Include previous response context
+            }, providerConfig.capabilities, {
+              // Background jobs use background mode where the API has it
+              background: Boolean(job),
+              signal,
+              onBackgroundResponse: job?.trackResponse,
+              pollIntervalMs: backgroundPollIntervalMs,
+            });
+
+          let response;
+          try {
+            response = await createStageResponse(inputItems);
+          } catch (error) {
+            if (signal.aborted) {
+              cancelled = true;
+              break;
+            }
+            const missing = isMissingPreviousResponse(error);
+            if (depth !== 1 || !chainResponseId || !(missing || isContextLengthExceeded(error))) {
+              throw error;
+            }
+            // The stored response expired or was deleted, or the chain of
+            // stored responses no longer fits the context window, which the
+            // token budget doesn't cover: replay the conversation as text
+            // within the budget instead
+            process.stderr.write(
+              `[DEBUG] Response ${chainResponseId} ${
+                missing ? "is no longer available" : "exceeds the context window"
+              }, replaying the conversation as text\n`
+            );
+            chainResponseId = undefined;
+            lastResponseId = undefined;
+            initialInputItems[0] = userMessage(await buildConversationContext());
+            response = await createStageResponse(initialInputItems);
+          }
+          if (depth === 1 && chainResponseId) {
+            audit.previousResponseId = chainResponseId;
+          }
+          audit.responseIds.push(response.id);
+
+          const stageUsage = {
+            ...priceUsage(response.usage, modelPrice),
+            stage: depth,
+            responseId: response.id,
+            model: providerConfig.model,
+          };
+          turnUsage.stages.push(stageUsage);
+          addUsage(turnUsage, stageUsage);
 
           // Check for function calls
           let hasFunctionCalls = false;
           const toolOutputItems: ResponseInputItem[] = []; // Store function_call_output items only (Responses API with previous_response_id)
+          const toolImageItems: ResponseInputImage[] = [];
 
           for (const outputItem of response.output || []) {
+            // Remaining calls are skipped; the cancelled stage is handled below
+            if (signal.aborted) break;
+
+            if (outputItem.type === "web_search_call") {
+              const webSearch = describeWebSearch(outputItem);
+              audit.webSearches.push(webSearch);
+              await reportProgress(`Stage ${depth}: ${webSearch}`);
+            }
+
             if (
               outputItem.type === "function_call" &&
               "name" in outputItem &&
@@ -525,79 +957,82 @@ Error reading file: ${error instanceof Error ? error.message : "Unknown error"}
               
               // Debug: Log function call details
               process.stderr.write(`[DEBUG] Function call detected: ${functionName}, call_id: ${callId}, args: ${argumentsStr}\n`);
+              await reportProgress(
+                `Stage ${depth}: calling ${describeToolCall(functionName, argumentsStr)}`
+              );
+
+              const startedAt = new Date();
+              const recordCall = (isError: boolean, output: string) => {
+                audit.toolCalls.push({
+                  name: functionName,
+                  arguments: argumentsStr || "",
+                  callId,
+                  startedAt: startedAt.toISOString(),
+                  durationMs: Date.now() - startedAt.getTime(),
+                  isError,
+                  output:
+                    output.length > MAX_AUDIT_OUTPUT_LENGTH
+                      ? `${output.slice(0, MAX_AUDIT_OUTPUT_LENGTH)}...[truncated]`
+                      : output,
+                });
+              };
 
               try {
-                if (!argumentsStr) {
-                  throw new Error("function_call arguments が空です");
+                // Only tools offered in this request may run
+                const tool = toolRegistry.get(functionName);
+                if (!tool || !exposedFunctions.has(functionName)) {
+                  throw new Error(
+                    `${functionName} is not available in this request`
+                  );
                 }
-                const args = JSON.parse(argumentsStr);
-                let result: any;
-
-                switch (functionName) {
-                  case "claude_view":
-                    result = await viewFile(args.file_path);
-                    break;
-                  case "claude_edit":
-                    result = await editFile(
-                      args.file_path,
-                      args.old_string,
-                      args.new_string
-                    );
-                    break;
-                  case "claude_ls":
-                    result = await listDirectory(".");
-                    break;
-                  case "claude_write":
-                    if (args.confirm === "yes") {
-                      result = await writeFile(args.file_path, args.content);
-                    } else {
-                      result = {
-                        content: [
-                          {
-                            type: "text",
-                            text: "Write operation cancelled. User confirmation required.",
-                          },
-                        ],
-                        isError: true,
-                      };
-                    }
-                    break;
-                  case "claude_bash":
-                    if (args.confirm === "yes") {
-                      result = await runBash(args.command);
-                    } else {
-                      result = {
-                        content: [
-                          {
-                            type: "text",
-                            text: "Command execution cancelled. User confirmation required.",
-                          },
-                        ],
-                        isError: true,
-                      };
-                    }
-                    break;
-                  case "claude_grep":
-                    result = await grepFiles(args.pattern);
-                    break;
-                  default:
-                    result = {
-                      content: [
-                        {
-                          type: "text",
-                          text: `Unknown function: ${functionName}`,
-                        },
-                      ],
-                      isError: true,
-                    };
+                const args = toolRegistry.parseArguments(tool, argumentsStr);
+
+                // Violations are reported back to o3 as function_call_output errors
+                await checkToolCall(sandboxPolicy, functionName, args, workspaces);
+
+                // Ask the human before mutating anything; rejections are
+                // reported back to o3 the same way. Dry-run edits never reach
+                // the disk, so they don't need confirmation. Mutating tools
+                // from external MCP servers are always confirmed.
+                const staysInOverlay = overlay !== null && tool.supportsDryRun;
+                if (!staysInOverlay) {
+                  await confirmationManager.confirm({
+                    conversationId: convId,
+                    functionName,
+                    args,
+                    // A background job's request has already returned
+                    relatedRequestId: job ? undefined : extra.requestId,
+                    alwaysConfirm: tool.mutating && tool.source !== "claude",
+                    signal,
+                  });
                 }
 
+                const result = filterToolResult(
+                  sandboxPolicy,
+                  functionName,
+                  args,
+                  await tool.execute(args, { overlay, workspaces, signal }),
+                  workspaces
+                );
+
+                // function_call_output only carries text, so images are
+                // forwarded in a user message after this stage's outputs
                 const resultText =
-                  result.content?.map((item: any) => item.text).join("\n") ||
-                  "No result";
+                  result.content
+                    ?.map((item) => {
+                      if (item.type !== "image") return item.text;
+                      toolImageItems.push({
+                        type: "input_image",
+                        detail: "auto",
+                        image_url: toDataUrl(item.mimeType, item.data),
+                      });
+                      return `[Image ${toolImageItems.length} (${item.mimeType}) is attached in the next message]`;
+                    })
+                    .join("\n") || "No result";
 
                 // Debug: Log function execution result
                 process.stderr.write(`[DEBUG] Function ${functionName} executed successfully, result length: ${resultText.length}\n`);
+                recordCall(Boolean(result.isError), resultText);
 
                 // Add function_call_output only (previous_response_id handles function_call history)
                 toolOutputItems.push({
@@ -619,6 +1054,7 @@ Error reading file: ${error instanceof Error ? error.message : "Unknown error"}
 
                 // Debug: Log function execution error
                 process.stderr.write(`[DEBUG] Function ${functionName} error: ${errorMsg}\n`);
+                recordCall(true, `Error: ${errorMsg}`);
 
                 // Add error function_call_output only (previous_response_id handles function_call history)
                 toolOutputItems.push({
@@ -636,6 +1072,22 @@ Error reading file: ${error instanceof Error ? error.message : "Unknown error"}
             }
           }
 
+          if (signal.aborted) {
+            cancelled = true;
+            break;
+          }
+
+          if (toolImageItems.length > 0) {
+            toolOutputItems.push({
+              type: "message",
+              role: "user",
+              content: [
+                { type: "input_text", text: "Images returned by the tool calls above:" },
+                ...toolImageItems,
+              ],
+            });
+          }
+
           // Extract text response first
           let currentResponseText = "";
           if (response.output) {
@@ -643,13 +1095,16 @@ Error reading file: ${error instanceof Error ? error.message : "Unknown error"}
               (item: any) => item.type === "message"
             );
             const textContents: string[] = [];
+            const stageSources: SourceCitation[] = [];
 
             for (const messageItem of messageItems) {
               const msgItem = messageItem as any;
               if (msgItem.content && Array.isArray(msgItem.content)) {
                 for (const contentItem of msgItem.content) {
                   if (contentItem.type === "output_text" && contentItem.text) {
-                    textContents.push(contentItem.text);
+                    // Citation markers would break structured JSON answers
+                    const annotated = annotateOutputText(contentItem, stageSources);
+                    textContents.push(responseFormat ? contentItem.text : annotated);
                   }
                 }
               }
@@ -657,12 +1112,14 @@ Error reading file: ${error instanceof Error ? error.message : "Unknown error"}
 
             if (textContents.length > 0) {
               currentResponseText = textContents.join("\n");
+              sources = stageSources;
             }
           }
 
           // Complete if no function calls AND meaningful text output exists
           if (!hasFunctionCalls && currentResponseText.trim().length > 0) {
             responseText = currentResponseText;
+            finalResponseId = response.id;
             break;
           }
 
@@ -695,20 +1152,187 @@ Error reading file: ${error instanceof Error ? error.message : "Unknown error"}
           }
         }
 
+        // Record the cancelled turn as such rather than as an answer
+        if (cancelled) {
+          process.stderr.write(`[DEBUG] Stage ${depth}: Request cancelled\n`);
+          let cancelledText = `Cancelled after ${turnUsage.stages.length} stage(s), before ${providerConfig.model} answered.`;
+          if (turnUsage.stages.length > 0) {
+            cancelledText += `\n\n---\n**Usage:** ${turnUsage.stages.length} stage(s), ${formatUsage(turnUsage)}`;
+          }
+          await conversationStore.createOrUpdateConversation(
+            convId,
+            input,
+            cancelledText,
+            file_paths,
+            { audit, usage: turnUsage, cancelled: true }
+          );
+          return {
+            content: [
+              { type: "text", text: cancelledText },
+              {
+                type: "text",
+                text: `\n\n---\nConversation ID: ${convId}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        // max_depth ran out while o3 was still calling tools. Report and
+        // record that rather than an empty answer.
+        if (!responseText) {
+          process.stderr.write(`[DEBUG] Stage ${depth}: Reached max_depth without a final answer\n`);
+          const stoppedText = `Stopped after ${depth} stage(s) without a final answer: ${providerConfig.model} was still calling tools when max_depth (${maxDepth}) was reached. Raise max_depth or ask a narrower question.\n\n---\n**Usage:** ${turnUsage.stages.length} stage(s), ${formatUsage(turnUsage)}`;
+          await conversationStore.createOrUpdateConversation(
+            convId,
+            input,
+            stoppedText,
+            file_paths,
+            { audit, usage: turnUsage }
+          );
+          return {
+            content: [
+              { type: "text", text: stoppedText },
+              {
+                type: "text",
+                text: `\n\n---\nConversation ID: ${convId}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        // Review mode: keep only comments that point into the diff's hunks.
+        // An answer that doesn't match the schema is reported below like any
+        // other structured answer.
+        const reviewAnswer = reviewFiles
+          ? parseStructuredResponse(REVIEW_RESPONSE_FORMAT, responseText)
+          : null;
+        const reviewResult =
+          reviewFiles && reviewAnswer && reviewAnswer.errors.length === 0
+            ? validateReview(reviewAnswer.value, reviewFiles)
+            : null;
+        if (reviewResult) {
+          responseText = formatReview(reviewResult);
+        }
+
+        // The answer itself, before the sections appended below
+        const answerText = responseText;
+
+        // Report which files were sent to the model
+        if (fileInputs) {
+          responseText += `\n\n---\n${formatFileInputsReport(fileInputs)}`;
+        }
+
+        // List the pages the answer cites
+        if (sources.length > 0) {
+          responseText += `\n\n---\n${formatSources(sources)}`;
+        }
+
+        // Add the proposed patch for dry runs, with paths relative to the
+        // request's repository so it applies there
+        if (overlay) {
+          const proposedDiff = overlay.diff(selectWorkspace(workspaces));
+          responseText += proposedDiff
+            ? `\n\n---\n## Proposed Changes (dry run, not applied)\n\n\`\`\`diff\n${proposedDiff}\`\`\``
+            : "\n\n---\n## Proposed Changes (dry run)\n\nNo file changes were proposed.";
+        }
+
         // Add tool results to final response
         if (allToolResults.length > 0) {
           responseText +=
             "\n\n---\n**Tools Used:**\n" + allToolResults.join("\n\n");
         }
 
+        // Show what this answer cost
+        if (turnUsage.stages.length > 0) {
+          responseText += `\n\n---\n**Usage:** ${turnUsage.stages.length} stage(s), ${formatUsage(turnUsage)}`;
+        }
+
+        await reportProgress(`Completed after ${depth} stage(s)`);
+
         // Save conversation
         await conversationStore.createOrUpdateConversation(
           convId,
           input,
           responseText,
-          file_paths
+          file_paths,
+          {
+            audit,
+            usage: turnUsage,
+            ...(sources.length > 0 && { sources }),
+            ...(finalResponseId && { responseId: finalResponseId }),
+          }
         );
 
+        // Reviews come back as markdown, the comments in GitHub/GitLab review
+        // format, and the appended sections
+        if (reviewResult) {
+          const githubReview = toGitHubReview(reviewResult, reviewCommits);
+          const gitlabDiscussions = toGitLabDiscussions(reviewResult, reviewCommits);
+          const appendix = responseText.slice(answerText.length).trim();
+          return {
+            content: [
+              { type: "text", text: answerText },
+              {
+                type: "text",
+                text: `**Review comments for posting:**\n\n\`\`\`json\n${JSON.stringify(
+                  { githubReview, gitlabDiscussions },
+                  null,
+                  2
+                )}\n\`\`\``,
+              },
+              ...(appendix ? [{ type: "text" as const, text: appendix }] : []),
+              {
+                type: "text",
+                text: `\n\n---\nConversation ID: ${convId}`,
+              },
+            ],
+            structuredContent: {
+              ...reviewResult,
+              githubReview,
+              gitlabDiscussions,
+            } as unknown as Record<string, unknown>,
+          };
+        }
+
+        // Structured answers come back as the validated JSON alone, with the
+        // appended sections in a separate content item
+        if (responseFormat) {
+          const { value, errors } = parseStructuredResponse(
+            responseFormat,
+            answerText
+          );
+          const appendix = responseText.slice(answerText.length).trim();
+          return {
+            content: [
+              {
+                type: "text",
+                text:
+                  errors.length > 0
+                    ? `Error: the response does not match the "${
+                        responseFormat.name
+                      }" schema:\n${errors
+                        .map((error) => `- ${error}`)
+                        .join("\n")}\n\nRaw response:\n${answerText}`
+                    : JSON.stringify(value, null, 2),
+              },
+              ...(appendix ? [{ type: "text" as const, text: appendix }] : []),
+              {
+                type: "text",
+                text: `\n\n---\nConversation ID: ${convId}`,
+              },
+            ],
+            ...(errors.length === 0 &&
+              value !== null &&
+              typeof value === "object" &&
+              !Array.isArray(value) && {
+                structuredContent: value as Record<string, unknown>,
+              }),
+            ...(errors.length > 0 && { isError: true }),
+          };
+        }
+
         return {
           content: [
             {
@@ -744,11 +1368,24 @@ Error reading file: ${error instanceof Error ? error.message : "Unknown error"}
               }`,
             },
           ],
+          isError: true,
         };
       }
     }
   );
 
+  // Error result for a conversation store call that threw, e.g. on an
+  // invalid conversation ID
+  const conversationError = (error: unknown): CallToolResult => ({
+    content: [
+      {
+        type: "text",
+        text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    ],
+    isError: true,
+  });
+
   // Define the reset-conversation tool
   server.tool(
     "reset-conversation",
@@ -773,7 +1410,11 @@ Default behavior:
     },
     async ({ conversation_id }) => {
       const convId = conversation_id || defaultConversationId;
-      await conversationStore.resetConversation(convId);
+      try {
+        await conversationStore.resetConversation(convId);
+      } catch (error) {
+        return conversationError(error);
+      }
 
       return {
         content: [
@@ -786,6 +1427,589 @@ Default behavior:
     }
   );
 
+  // Define conversation management tools
+  server.tool(
+    "list-conversations",
+    `List saved conversations, most recently updated first.
+
+Shows each conversation's ID, creation and update time, number of entries, fork lineage and the first query, so earlier conversations can be found and continued by passing their ID as conversation_id.`,
+    {},
+    async () => {
+      const conversations = conversationStore.listConversations();
+      if (conversations.length === 0) {
+        return {
+          content: [{ type: "text", text: "No saved conversations." }],
+        };
+      }
+
+      const lines = conversations.map((conversation) => {
+        const firstQuery = conversation.firstQuery.replace(/\s+/g, " ");
+        const preview =
+          firstQuery.length > 100 ? `${firstQuery.slice(0, 100)}...` : firstQuery;
+        const isDefault =
+          conversation.id === defaultConversationId ? " (default)" : "";
+        const lineage = [
+          conversation.forkedFrom
+            ? `\n  Forked from: ${conversation.forkedFrom.conversationId} after entry ${conversation.forkedFrom.entryCount}${
+                conversationStore.getConversation(
+                  conversation.forkedFrom.conversationId
+                )
+                  ? ""
+                  : " (deleted)"
+              }`
+            : "",
+          conversation.forks.length > 0
+            ? `\n  Forks: ${conversation.forks.join(", ")}`
+            : "",
+        ].join("");
+        return `- **${conversation.id}**${isDefault}
+  Created: ${conversation.createdAt} / Updated: ${conversation.updatedAt}
+  Entries: ${conversation.entryCount}${lineage}
+  First query: ${preview}`;
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${conversations.length} conversation(s):\n\n${lines.join("\n")}`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "get-conversation",
+    "Show the full transcript of a conversation.",
+    {
+      conversation_id: z
+        .string()
+        .optional()
+        .describe(
+          "Conversation ID to show. If not provided, shows the default conversation."
+        ),
+    },
+    async ({ conversation_id }) => {
+      const convId = conversation_id || defaultConversationId;
+      let conversation;
+      try {
+        conversation = conversationStore.getConversation(convId);
+      } catch (error) {
+        return conversationError(error);
+      }
+      if (!conversation) {
+        return {
+          content: [
+            { type: "text", text: `Conversation "${convId}" not found.` },
+          ],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: conversationStore.exportConversation(conversation, "markdown"),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "export-conversation",
+    "Export a conversation as Markdown or JSON.",
+    {
+      conversation_id: z
+        .string()
+        .optional()
+        .describe(
+          "Conversation ID to export. If not provided, exports the default conversation."
+        ),
+      format: z
+        .enum(["markdown", "json"])
+        .optional()
+        .describe("Export format. Default: markdown"),
+    },
+    async ({ conversation_id, format }) => {
+      const convId = conversation_id || defaultConversationId;
+      let conversation;
+      try {
+        conversation = conversationStore.getConversation(convId);
+      } catch (error) {
+        return conversationError(error);
+      }
+      if (!conversation) {
+        return {
+          content: [
+            { type: "text", text: `Conversation "${convId}" not found.` },
+          ],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: conversationStore.exportConversation(
+              conversation,
+              format || "markdown"
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "rename-conversation",
+    "Rename a conversation so it can be found and continued under a meaningful ID.",
+    {
+      conversation_id: z
+        .string()
+        .optional()
+        .describe(
+          "Conversation ID to rename. If not provided, renames the default conversation."
+        ),
+      new_conversation_id: z
+        .string()
+        .describe(
+          "New conversation ID, without '/' or '\\'. Example: 'debug-auth-loop'"
+        ),
+    },
+    async ({ conversation_id, new_conversation_id }) => {
+      const convId = conversation_id || defaultConversationId;
+      try {
+        await conversationStore.renameConversation(convId, new_conversation_id);
+      } catch (error) {
+        return conversationError(error);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Conversation "${convId}" has been renamed to "${new_conversation_id}".`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "fork-conversation",
+    "Copy a conversation up to an earlier entry into a new conversation, to try an alternative without changing the original. Continue the fork by passing its ID as conversation_id.",
+    {
+      conversation_id: z
+        .string()
+        .optional()
+        .describe(
+          "Conversation ID to fork. If not provided, forks the default conversation."
+        ),
+      entry: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe(
+          "Fork after this entry (1-based, as numbered by get-conversation); later entries are not copied. Default: all entries"
+        ),
+      new_conversation_id: z
+        .string()
+        .optional()
+        .describe(
+          "ID for the fork, without '/' or '\\'. Default: '<conversation_id>-fork-<n>'"
+        ),
+    },
+    async ({ conversation_id, entry, new_conversation_id }) => {
+      const convId = conversation_id || defaultConversationId;
+      let fork;
+      try {
+        fork = await conversationStore.forkConversation(
+          convId,
+          new_conversation_id,
+          entry
+        );
+      } catch (error) {
+        return conversationError(error);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Forked "${convId}" after entry ${fork.forkedFrom!.entryCount} into "${fork.id}". Continue it with conversation_id: "${fork.id}".`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "delete-conversation",
+    "Permanently delete a saved conversation and its file.",
+    {
+      conversation_id: z.string().describe("Conversation ID to delete."),
+    },
+    async ({ conversation_id }) => {
+      let existed;
+      try {
+        existed = await conversationStore.deleteConversation(conversation_id);
+      } catch (error) {
+        return conversationError(error);
+      }
+      if (!existed) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Conversation "${conversation_id}" not found.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Conversation "${conversation_id}" has been deleted.`,
+          },
+        ],
+      };
+    }
+  );
+
+  server.tool(
+    "get-audit-trail",
+    `Show what o3 read, edited or executed in a conversation.
+
+For each turn: every tool call with its arguments, call_id, duration, error status and truncated output; web searches; the git diff command used; and the OpenAI response IDs.`,
+    {
+      conversation_id: z
+        .string()
+        .optional()
+        .describe(
+          "Conversation ID to inspect. If not provided, uses the default conversation."
+        ),
+      entry: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Only show this entry (1-based). Default: all entries"),
+      tool_name: z
+        .string()
+        .optional()
+        .describe("Only show calls to this tool. Example: 'claude_bash'"),
+      format: z
+        .enum(["text", "json"])
+        .optional()
+        .describe("Output format. Default: text"),
+    },
+    async ({ conversation_id, entry, tool_name, format }) => {
+      const convId = conversation_id || defaultConversationId;
+      let conversation;
+      try {
+        conversation = conversationStore.getConversation(convId);
+      } catch (error) {
+        return conversationError(error);
+      }
+      if (!conversation) {
+        return {
+          content: [
+            { type: "text", text: `Conversation "${convId}" not found.` },
+          ],
+          isError: true,
+        };
+      }
+
+      let entries = conversation.entries.map((item, index) => ({
+        index,
+        item,
+      }));
+      if (entry !== undefined) {
+        entries = entries.filter(({ index }) => index === entry - 1);
+      }
+      if (tool_name) {
+        entries = entries.map(({ index, item }) => ({
+          index,
+          item: item.audit
+            ? {
+                ...item,
+                audit: {
+                  ...item.audit,
+                  toolCalls: item.audit.toolCalls.filter(
+                    (call) => call.name === tool_name
+                  ),
+                },
+              }
+            : item,
+        }));
+      }
+
+      if (entries.length === 0) {
+        return {
+          content: [{ type: "text", text: "No matching entries." }],
+          isError: true,
+        };
+      }
+
+      const text =
+        format === "json"
+          ? JSON.stringify(
+              entries.map(({ index, item }) => ({
+                entry: index + 1,
+                timestamp: item.timestamp,
+                input: item.input,
+                audit: item.audit ?? null,
+              })),
+              null,
+              2
+            )
+          : `## Audit trail: ${convId}\n\n${entries
+              .map(({ index, item }) => formatAudit(index, item))
+              .join("\n")}`;
+
+      return {
+        content: [{ type: "text", text }],
+      };
+    }
+  );
+
+  server.tool(
+    "usage-report",
+    `Report token usage and cost, broken down by day and by conversation.
+
+Reasoning tokens are shown separately because they drive o3's cost at high effort. With conversation_id, also shows each turn and each stage of that conversation.`,
+    {
+      conversation_id: z
+        .string()
+        .optional()
+        .describe(
+          "Optional conversation ID to show per-turn and per-stage usage for."
+        ),
+      days: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Number of most recent days to include. Default: 30"),
+    },
+    async ({ conversation_id, days }) => {
+      let text = "## Usage by day\n\n";
+      const daily = conversationStore.listDailyUsage().slice(0, days ?? 30);
+      text +=
+        daily.length === 0
+          ? "No usage recorded.\n"
+          : daily
+              .map(
+                ({ day, usage }) =>
+                  `- ${day}: ${usage.turns} turn(s), ${formatUsage(usage)}`
+              )
+              .join("\n") + "\n";
+
+      const conversations = conversationStore
+        .listConversations()
+        .map((summary) => {
+          const conversation = conversationStore.getConversation(summary.id)!;
+          return {
+            id: summary.id,
+            usage: conversationStore.getConversationUsage(conversation),
+          };
+        })
+        .filter(({ usage }) => usage.turns > 0)
+        .sort((a, b) => (b.usage.costUsd ?? 0) - (a.usage.costUsd ?? 0));
+
+      text += "\n## Usage by conversation\n\n";
+      text +=
+        conversations.length === 0
+          ? "No usage recorded.\n"
+          : conversations
+              .map(
+                ({ id, usage }) =>
+                  `- ${id}: ${usage.turns} turn(s), ${formatUsage(usage)}`
+              )
+              .join("\n") + "\n";
+
+      if (spendCaps.perConversationUsd !== null || spendCaps.perDayUsd !== null) {
+        text += `\nSpend caps: per conversation ${
+          spendCaps.perConversationUsd !== null
+            ? `$${spendCaps.perConversationUsd.toFixed(2)}`
+            : "none"
+        }, per day ${
+          spendCaps.perDayUsd !== null
+            ? `$${spendCaps.perDayUsd.toFixed(2)}`
+            : "none"
+        }\n`;
+      }
+
+      if (conversation_id) {
+        let conversation;
+        try {
+          conversation = conversationStore.getConversation(conversation_id);
+        } catch (error) {
+          return conversationError(error);
+        }
+        if (!conversation) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Conversation "${conversation_id}" not found.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        text += `\n## Turns in ${conversation_id}\n\n`;
+        conversation.entries.forEach((entry, index) => {
+          if (!entry.usage) {
+            const forkedFrom = conversation.forkedFrom;
+            text += `${index + 1}. ${entry.timestamp}: ${
+              forkedFrom && index < forkedFrom.entryCount
+                ? `copied from ${forkedFrom.conversationId}, where its usage is counted`
+                : "no usage recorded"
+            }\n`;
+            return;
+          }
+          text += `${index + 1}. ${entry.timestamp}: ${formatUsage(entry.usage)}\n`;
+          for (const stage of entry.usage.stages) {
+            text += `   - Stage ${stage.stage} (${stage.model}, ${stage.responseId}): ${stage.inputTokens} in / ${stage.outputTokens} out (${stage.reasoningTokens} reasoning), ${formatCost(stage.costUsd)}\n`;
+          }
+          for (const summary of entry.usage.summaries ?? []) {
+            text += `   - Context summary (${summary.model}, ${summary.responseId}): ${summary.inputTokens} in / ${summary.outputTokens} out (${summary.reasoningTokens} reasoning), ${formatCost(summary.costUsd)}\n`;
+          }
+        });
+      }
+
+      return {
+        content: [{ type: "text", text }],
+      };
+    }
+  );
+
+  const formatJob = (job: Job): string => {
+    let text = `Job ${job.id}: ${job.status}\n`;
+    text += `Conversation: ${job.conversationId}\n`;
+    text += `Question: ${job.input}\n`;
+    text += `Started: ${job.createdAt}\n`;
+    if (job.finishedAt) text += `Finished: ${job.finishedAt}\n`;
+    if (job.progress) text += `Progress: ${job.progress}\n`;
+    if (job.responseId) text += `Background response: ${job.responseId}\n`;
+    if (job.error) text += `Error: ${job.error}\n`;
+    return text;
+  };
+
+  const jobNotFound = (jobId: string): CallToolResult => ({
+    content: [{ type: "text", text: `Job "${jobId}" not found.` }],
+    isError: true,
+  });
+
+  server.tool(
+    "job-status",
+    "Show the status and latest progress of a background job started with async: true. Without job_id, lists recent jobs.",
+    {
+      job_id: z
+        .string()
+        .optional()
+        .describe("Job ID returned by ask-gpt-o3-extremely-smart. If not provided, lists all jobs."),
+    },
+    async ({ job_id }) => {
+      if (!job_id) {
+        const jobs = await jobManager.list();
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                jobs.length === 0
+                  ? "No background jobs."
+                  : `Background jobs (${jobs.length}):\n\n${jobs.map(formatJob).join("\n")}`,
+            },
+          ],
+        };
+      }
+
+      const job = await jobManager.get(job_id);
+      if (!job) return jobNotFound(job_id);
+      return {
+        content: [{ type: "text", text: formatJob(job) }],
+        structuredContent: {
+          jobId: job.id,
+          status: job.status,
+          ...(job.progress && { progress: job.progress }),
+        },
+      };
+    }
+  );
+
+  server.tool(
+    "job-result",
+    "Get the answer of a finished background job. While the job is still running, returns its status instead.",
+    {
+      job_id: z.string().describe("Job ID returned by ask-gpt-o3-extremely-smart."),
+    },
+    async ({ job_id }) => {
+      const job = await jobManager.get(job_id);
+      if (!job) return jobNotFound(job_id);
+
+      // The answer of a completed job, or the error result of a failed one
+      if (job.result) return job.result;
+
+      switch (job.status) {
+        case "running":
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Job ${job.id} is still running${
+                  job.progress ? ` (${job.progress})` : ""
+                }. Check again later.`,
+              },
+            ],
+          };
+        default:
+          return {
+            content: [{ type: "text", text: formatJob(job) }],
+            isError: true,
+          };
+      }
+    }
+  );
+
+  server.tool(
+    "job-cancel",
+    "Cancel a running background job. o3 stops at the next stage and its background response is cancelled.",
+    {
+      job_id: z.string().describe("Job ID to cancel."),
+    },
+    async ({ job_id }) => {
+      if (!(await jobManager.get(job_id))) return jobNotFound(job_id);
+      try {
+        const job = await jobManager.cancel(job_id);
+        return {
+          content: [{ type: "text", text: `Job ${job.id} has been cancelled.` }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // Define Claude Code proxy tools
   server.tool(
     "claude-view",
@@ -900,13 +2124,16 @@ Default behavior:
 async function main() {
   const server = await setupServer();
 
-  // Start Claude supervision
-  startClaudeSupervision();
+  // Start Claude supervision (not needed when only native tools are used)
+  if (getToolBackend() !== "native") {
+    startClaudeSupervision();
+  }
 
   // Setup graceful shutdown
   const shutdown = async () => {
     stopClaudeSupervision();
     await closeClaudeClient();
+    await closeMcpToolSources();
     process.exit(0);
   };
 
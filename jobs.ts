@@ -0,0 +1,232 @@
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import { homedir } from "os";
+import path from "path";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+// Background jobs for long o3 runs: the request returns a job id at once and
+// the caller polls for the result, which is kept under the state directory so
+// it survives a client reconnect.
+
+export type JobStatus = "running" | "completed" | "failed" | "cancelled";
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  conversationId: string;
+  // Start of the question, for listings
+  input: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  // Server process running the job's work. The state directory is shared
+  // by every server process, so other processes' jobs show up here too.
+  ownerPid?: number;
+  // Latest progress message of a running job
+  progress?: string;
+  // Background-mode response currently being polled
+  responseId?: string;
+  // The tool result, once completed, or the error result of a failed job
+  result?: CallToolResult;
+  error?: string;
+}
+
+// Handed to the job's work so it can report progress and notice cancellation
+export interface JobContext {
+  jobId: string;
+  signal: AbortSignal;
+  reportProgress(message: string): Promise<void>;
+  trackResponse(responseId: string): Promise<void>;
+}
+
+const MAX_INPUT_PREVIEW = 200;
+const JOB_ID_PATTERN = /^job_[0-9a-z]+$/;
+// Finished jobs are deleted after this long
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function isFinished(job: Job): boolean {
+  return job.status !== "running";
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+// First line of an error result, for job listings
+function errorMessage(result: CallToolResult): string {
+  const first = result.content.find((item) => item.type === "text");
+  const line = first?.type === "text" ? first.text.split("\n")[0]!.replace(/^Error: /, "") : "";
+  return line || "The job returned an error";
+}
+
+export class JobManager {
+  private jobs: Map<string, Job> = new Map();
+  private controllers: Map<string, AbortController> = new Map();
+  private dataDir: string;
+
+  constructor() {
+    const stateHome = process.env.XDG_STATE_HOME || path.join(homedir(), ".local", "state");
+    this.dataDir = path.join(stateHome, "o3-search-mcp", "jobs");
+  }
+
+  async load(): Promise<void> {
+    await fs.mkdir(this.dataDir, { recursive: true });
+    for (const file of await fs.readdir(this.dataDir)) {
+      if (!file.endsWith(".json")) continue;
+      await this.readJob(file.slice(0, -".json".length));
+    }
+  }
+
+  // Jobs of other server processes are re-read, since those processes
+  // update them
+  async get(id: string): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if ((job && (isFinished(job) || this.controllers.has(id))) || !JOB_ID_PATTERN.test(id)) {
+      return job;
+    }
+    return this.readJob(id);
+  }
+
+  // Newest first
+  async list(): Promise<Job[]> {
+    for (const job of this.jobs.values()) {
+      if (!isFinished(job) && !this.controllers.has(job.id)) await this.readJob(job.id);
+    }
+    return Array.from(this.jobs.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  // Read a persisted job, deleting it once past retention. A job still
+  // marked running whose server process has exited can't finish any more,
+  // so it is marked failed.
+  private async readJob(id: string): Promise<Job | undefined> {
+    const filePath = path.join(this.dataDir, `${id}.json`);
+    try {
+      const job = JSON.parse(await fs.readFile(filePath, "utf-8")) as Job;
+      if (job.finishedAt && Date.now() - Date.parse(job.finishedAt) > JOB_RETENTION_MS) {
+        await fs.unlink(filePath);
+        this.jobs.delete(id);
+        return undefined;
+      }
+      this.jobs.set(job.id, job);
+      if (
+        job.status === "running" &&
+        (!job.ownerPid || job.ownerPid === process.pid || !isProcessAlive(job.ownerPid))
+      ) {
+        await this.finish(job, "failed", {
+          error: "The server stopped before the job finished",
+        });
+      }
+      return job;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        process.stderr.write(
+          `[DEBUG] Failed to load job ${id}: ${error instanceof Error ? error.message : String(error)}\n`
+        );
+      }
+      return this.jobs.get(id);
+    }
+  }
+
+  // Start work in the background and return its job right away
+  async start(
+    conversationId: string,
+    input: string,
+    work: (context: JobContext) => Promise<CallToolResult>
+  ): Promise<Job> {
+    const now = new Date().toISOString();
+    const job: Job = {
+      id: `job_${Date.now().toString(36)}${randomBytes(4).toString("hex")}`,
+      status: "running",
+      conversationId,
+      input: input.length > MAX_INPUT_PREVIEW ? `${input.slice(0, MAX_INPUT_PREVIEW)}...` : input,
+      createdAt: now,
+      updatedAt: now,
+      ownerPid: process.pid,
+    };
+    const controller = new AbortController();
+    this.jobs.set(job.id, job);
+    this.controllers.set(job.id, controller);
+    await this.save(job);
+
+    const context: JobContext = {
+      jobId: job.id,
+      signal: controller.signal,
+      reportProgress: async (message) => {
+        process.stderr.write(`[PROGRESS] ${job.id}: ${message}\n`);
+        if (isFinished(job)) return;
+        job.progress = message;
+        await this.touch(job);
+      },
+      trackResponse: async (responseId) => {
+        if (isFinished(job)) return;
+        job.responseId = responseId;
+        await this.touch(job);
+      },
+    };
+
+    // Not awaited: the caller polls job-status/job-result instead
+    void work(context).then(
+      (result) =>
+        result.isError
+          ? this.finish(job, "failed", { result, error: errorMessage(result) })
+          : this.finish(job, "completed", { result }),
+      (error) => this.finish(job, "failed", { error: error instanceof Error ? error.message : String(error) })
+    );
+    return job;
+  }
+
+  // Stop a running job. The work sees the aborted signal and stops at the
+  // next opportunity; the job is marked cancelled right away.
+  async cancel(id: string): Promise<Job> {
+    const job = await this.get(id);
+    if (!job) {
+      throw new Error(`Job "${id}" not found`);
+    }
+    if (isFinished(job)) {
+      throw new Error(`Job "${id}" has already ${job.status === "cancelled" ? "been cancelled" : job.status}`);
+    }
+    if (!this.controllers.has(id)) {
+      throw new Error(`Job "${id}" is running in another server process (pid ${job.ownerPid})`);
+    }
+    this.controllers.get(id)?.abort();
+    await this.finish(job, "cancelled", {});
+    return job;
+  }
+
+  private async finish(
+    job: Job,
+    status: Exclude<JobStatus, "running">,
+    outcome: { result?: CallToolResult; error?: string }
+  ): Promise<void> {
+    // A cancelled job stays cancelled when its work returns afterwards
+    if (isFinished(job)) return;
+    job.status = status;
+    job.finishedAt = new Date().toISOString();
+    delete job.progress;
+    if (outcome.result) job.result = outcome.result;
+    if (outcome.error) job.error = outcome.error;
+    this.controllers.delete(job.id);
+    await this.touch(job);
+  }
+
+  private async touch(job: Job): Promise<void> {
+    job.updatedAt = new Date().toISOString();
+    await this.save(job);
+  }
+
+  private async save(job: Job): Promise<void> {
+    try {
+      await fs.writeFile(path.join(this.dataDir, `${job.id}.json`), JSON.stringify(job, null, 2), "utf-8");
+    } catch (error) {
+      process.stderr.write(
+        `[DEBUG] Failed to save job ${job.id}: ${error instanceof Error ? error.message : String(error)}\n`
+      );
+    }
+  }
+}
@@ -0,0 +1,185 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { readFileSync } from "fs";
+import { normalizeMcpResult } from "./claudeTools.js";
+import type { RegisteredTool, ToolRegistry } from "./toolRegistry.js";
+
+export interface McpServerConfig {
+  command: string;
+  args?: string[] | undefined;
+  env?: Record<string, string> | undefined;
+  cwd?: string | undefined;
+}
+
+interface ConnectedSource {
+  name: string;
+  client: Client;
+  transport: StdioClientTransport;
+}
+
+// How long to wait for an external server to start and list its tools
+const CONNECT_TIMEOUT_MS = 15000;
+
+const connectedSources: ConnectedSource[] = [];
+
+// MCP_TOOL_SERVERS holds a JSON object of servers keyed by name, e.g.
+// {"search": {"command": "npx", "args": ["-y", "some-mcp-server"]}}.
+// MCP_TOOL_SERVERS_FILE points to a JSON file with the same object, optionally
+// wrapped in "mcpServers" as in Claude Desktop / Claude Code configs.
+export function loadMcpServerConfigs(): Record<string, McpServerConfig> {
+  const parse = (json: string, origin: string): Record<string, McpServerConfig> => {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(json);
+    } catch (error) {
+      throw new Error(
+        `${origin} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    const servers = parsed?.mcpServers ?? parsed;
+    if (!servers || typeof servers !== "object" || Array.isArray(servers)) {
+      throw new Error(`${origin} must be a JSON object of MCP servers keyed by name`);
+    }
+    for (const [name, config] of Object.entries<any>(servers)) {
+      if (!config || typeof config.command !== "string") {
+        throw new Error(`${origin}: server "${name}" needs a "command"`);
+      }
+    }
+    return servers;
+  };
+
+  const configs: Record<string, McpServerConfig> = {};
+  if (process.env.MCP_TOOL_SERVERS_FILE) {
+    const file = process.env.MCP_TOOL_SERVERS_FILE;
+    Object.assign(configs, parse(readFileSync(file, "utf-8"), `MCP_TOOL_SERVERS_FILE (${file})`));
+  }
+  if (process.env.MCP_TOOL_SERVERS) {
+    Object.assign(configs, parse(process.env.MCP_TOOL_SERVERS, "MCP_TOOL_SERVERS"));
+  }
+  return configs;
+}
+
+// OpenAI function names allow [a-zA-Z0-9_-] up to 64 characters
+function functionName(serverName: string, toolName: string): string {
+  return `${serverName}__${toolName}`.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 64);
+}
+
+async function connect(name: string, config: McpServerConfig): Promise<ConnectedSource> {
+  const transport = new StdioClientTransport({
+    command: config.command,
+    args: config.args ?? [],
+    env: { ...process.env, ...config.env } as Record<string, string>,
+    ...(config.cwd && { cwd: config.cwd }),
+  });
+  const client = new Client({
+    name: "o3-search-mcp",
+    version: "0.1.0",
+  });
+
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      client.connect(transport),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`did not start within ${CONNECT_TIMEOUT_MS / 1000}s`)),
+          CONNECT_TIMEOUT_MS
+        );
+      }),
+    ]);
+  } catch (error) {
+    await transport.close().catch(() => {});
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+  return { name, client, transport };
+}
+
+// External tools are trusted: their arguments have no known shape, so the
+// sandbox's path rules can't be applied to them or their results
+function toRegisteredTool(source: ConnectedSource, tool: any): RegisteredTool {
+  return {
+    name: functionName(source.name, tool.name),
+    description: tool.description || `${tool.name} from the ${source.name} MCP server`,
+    source: `mcp:${source.name}`,
+    // Without a read-only annotation, assume the tool can change things
+    mutating: tool.annotations?.readOnlyHint !== true,
+    supportsDryRun: tool.annotations?.readOnlyHint === true,
+    parameters: tool.inputSchema ?? { type: "object", properties: {} },
+    // Arbitrary server schemas rarely satisfy strict mode's restrictions
+    strict: false,
+    parseArguments(args) {
+      if (!args || typeof args !== "object" || Array.isArray(args)) {
+        throw new Error(`Invalid arguments for ${tool.name}: expected a JSON object`);
+      }
+      return args;
+    },
+    async execute(args, { signal }) {
+      const result = await source.client.callTool(
+        { name: tool.name, arguments: args },
+        undefined,
+        { ...(signal && { signal }) }
+      );
+      return normalizeMcpResult(result);
+    },
+  };
+}
+
+// Every page of a server's tool list
+async function listAllTools(client: Client): Promise<any[]> {
+  const tools: any[] = [];
+  const seenCursors = new Set<string>();
+  let cursor: string | undefined;
+  do {
+    const page = await client.listTools(cursor ? { cursor } : undefined);
+    tools.push(...page.tools);
+    cursor = page.nextCursor;
+    if (cursor && seenCursors.has(cursor)) {
+      throw new Error(`tools/list returned cursor "${cursor}" twice`);
+    }
+    if (cursor) seenCursors.add(cursor);
+  } while (cursor);
+  return tools;
+}
+
+// Connect to the configured MCP servers and register their tools. A server
+// that fails to start, or whose tool names clash after truncation, is logged
+// and skipped so the built-in tools keep working.
+export async function registerMcpToolSources(registry: ToolRegistry): Promise<void> {
+  const configs = loadMcpServerConfigs();
+  for (const [name, config] of Object.entries(configs)) {
+    let source: ConnectedSource | undefined;
+    try {
+      source = await connect(name, config);
+      const connected = source;
+      const tools = (await listAllTools(connected.client)).map((tool) => toRegisteredTool(connected, tool));
+
+      // Check every name first so a clash can't leave the server half registered
+      const names = new Set<string>();
+      for (const tool of tools) {
+        if (names.has(tool.name) || registry.get(tool.name)) {
+          throw new Error(`tool name "${tool.name}" is not unique`);
+        }
+        names.add(tool.name);
+      }
+      for (const tool of tools) {
+        registry.register(tool);
+      }
+      connectedSources.push(source);
+      process.stderr.write(
+        `[DEBUG] Registered ${tools.length} tool(s) from MCP server "${name}"\n`
+      );
+    } catch (error) {
+      await source?.client.close().catch(() => {});
+      process.stderr.write(
+        `[DEBUG] Skipping MCP server "${name}": ${error instanceof Error ? error.message : String(error)}\n`
+      );
+    }
+  }
+}
+
+export async function closeMcpToolSources(): Promise<void> {
+  const sources = connectedSources.splice(0);
+  await Promise.all(sources.map((source) => source.client.close().catch(() => {})));
+}
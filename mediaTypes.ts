@@ -0,0 +1,23 @@
+import path from "path";
+
+// File types o3 accepts as native inputs instead of text: images become
+// input_image items and PDFs input_file items.
+
+export type MediaKind = "image" | "pdf";
+
+const MEDIA_TYPES: Record<string, { kind: MediaKind; mimeType: string }> = {
+  ".png": { kind: "image", mimeType: "image/png" },
+  ".jpg": { kind: "image", mimeType: "image/jpeg" },
+  ".jpeg": { kind: "image", mimeType: "image/jpeg" },
+  ".gif": { kind: "image", mimeType: "image/gif" },
+  ".webp": { kind: "image", mimeType: "image/webp" },
+  ".pdf": { kind: "pdf", mimeType: "application/pdf" },
+};
+
+export function mediaTypeOf(filePath: string): { kind: MediaKind; mimeType: string } | null {
+  return MEDIA_TYPES[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+export function toDataUrl(mimeType: string, base64: string): string {
+  return `data:${mimeType};base64,${base64}`;
+}
@@ -0,0 +1,214 @@
+import { exec } from "child_process";
+import { promises as fs } from "fs";
+import path from "path";
+import type { ClaudeToolResult } from "./claudeTools.js";
+import { mediaTypeOf } from "./mediaTypes.js";
+
+// In-process implementations of the Claude Code tools (Read, Edit, LS, Write,
+// Bash, Grep) using Node's fs and child_process, for when the Claude Code CLI
+// is missing, broken or not wanted.
+
+const MAX_READ_LINES = 2000;
+const MAX_LINE_LENGTH = 2000;
+const MAX_LS_ENTRIES = 1000;
+const MAX_GREP_MATCHES = 200;
+const MAX_GREP_FILE_SIZE = 1024 * 1024;
+const MAX_IMAGE_SIZE = 20 * 1024 * 1024;
+// More than this can't be shown within MAX_READ_LINES lines anyway
+const MAX_READ_BYTES = MAX_READ_LINES * MAX_LINE_LENGTH;
+const BASH_TIMEOUT_MS = 120000;
+const IGNORED_DIRECTORIES = new Set([".git", "node_modules"]);
+
+function textResult(text: string, isError = false): ClaudeToolResult {
+  return {
+    content: [{ type: "text", text }],
+    ...(isError && { isError: true }),
+  };
+}
+
+function looksBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8000).includes(0);
+}
+
+// Read at most maxBytes from the start of a file
+async function readHead(filePath: string, maxBytes: number): Promise<Buffer> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(maxBytes);
+    const { bytesRead } = await handle.read(buffer, 0, maxBytes, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+export async function nativeViewFile(filePath: string): Promise<ClaudeToolResult> {
+  const { size } = await fs.stat(filePath);
+  const mediaType = mediaTypeOf(filePath);
+  if (mediaType?.kind === "image" && size <= MAX_IMAGE_SIZE) {
+    const buffer = await fs.readFile(filePath);
+    return {
+      content: [{ type: "image", data: buffer.toString("base64"), mimeType: mediaType.mimeType }],
+    };
+  }
+  const buffer = await readHead(filePath, Math.min(size, MAX_READ_BYTES));
+  if (looksBinary(buffer)) {
+    return textResult(`${filePath} appears to be a binary file (${size} bytes)`, true);
+  }
+
+  const lines = buffer.toString("utf-8").split("\n");
+  const numbered = lines.slice(0, MAX_READ_LINES).map((line, index) => {
+    const shown = line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH)}...` : line;
+    return `${String(index + 1).padStart(6)}\t${shown}`;
+  });
+  if (lines.length > MAX_READ_LINES) {
+    numbered.push(`... (${lines.length - MAX_READ_LINES} more lines not shown)`);
+  }
+  if (size > buffer.length) {
+    numbered.push(`... (only the first ${buffer.length} of ${size} bytes were read)`);
+  }
+  return textResult(numbered.join("\n"));
+}
+
+export async function nativeEditFile(
+  filePath: string,
+  oldString: string,
+  newString: string
+): Promise<ClaudeToolResult> {
+  const content = await fs.readFile(filePath, "utf-8");
+  const matches = content.split(oldString).length - 1;
+  if (matches === 0) {
+    return textResult(`String to replace not found in file: ${filePath}`, true);
+  }
+  if (matches > 1) {
+    return textResult(
+      `Found ${matches} matches of the string to replace in ${filePath}. Provide more surrounding context to make it unique.`,
+      true
+    );
+  }
+  await fs.writeFile(filePath, content.replace(oldString, () => newString), "utf-8");
+  return textResult(`The file ${filePath} has been updated.`);
+}
+
+export async function nativeWriteFile(filePath: string, content: string): Promise<ClaudeToolResult> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content, "utf-8");
+  return textResult(`File created successfully at: ${filePath}`);
+}
+
+export async function nativeListDirectory(dirPath: string): Promise<ClaudeToolResult> {
+  const root = path.resolve(dirPath);
+  const lines: string[] = [`- ${root}/`];
+  let count = 0;
+
+  const walk = async (dir: string, depth: number): Promise<void> => {
+    const entries = (await fs.readdir(dir, { withFileTypes: true })).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+    for (const entry of entries) {
+      if (count >= MAX_LS_ENTRIES) return;
+      if (IGNORED_DIRECTORIES.has(entry.name)) continue;
+      count++;
+      const indent = "  ".repeat(depth + 1);
+      if (entry.isDirectory()) {
+        lines.push(`${indent}- ${entry.name}/`);
+        await walk(path.join(dir, entry.name), depth + 1);
+      } else {
+        lines.push(`${indent}- ${entry.name}`);
+      }
+    }
+  };
+
+  await walk(root, 0);
+  if (count >= MAX_LS_ENTRIES) {
+    lines.push(`... (listing truncated at ${MAX_LS_ENTRIES} entries)`);
+  }
+  return textResult(lines.join("\n"));
+}
+
+export async function nativeGrepFiles(pattern: string, searchPath: string = "."): Promise<ClaudeToolResult> {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern);
+  } catch (error) {
+    return textResult(`Invalid regular expression: ${(error as Error).message}`, true);
+  }
+
+  const root = path.resolve(searchPath);
+  const matches: string[] = [];
+
+  const searchFile = async (file: string): Promise<void> => {
+    const stat = await fs.stat(file);
+    if (stat.size > MAX_GREP_FILE_SIZE) return;
+    const buffer = await fs.readFile(file);
+    if (looksBinary(buffer)) return;
+    const lines = buffer.toString("utf-8").split("\n");
+    for (let i = 0; i < lines.length && matches.length < MAX_GREP_MATCHES; i++) {
+      if (regex.test(lines[i]!)) {
+        const line = lines[i]!.trim();
+        matches.push(
+          `${path.relative(root, file) || file}:${i + 1}: ${
+            line.length > 200 ? `${line.slice(0, 200)}...` : line
+          }`
+        );
+      }
+    }
+  };
+
+  const walk = async (dir: string): Promise<void> => {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      if (matches.length >= MAX_GREP_MATCHES) return;
+      if (IGNORED_DIRECTORIES.has(entry.name)) continue;
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(full);
+      } else if (entry.isFile()) {
+        await searchFile(full);
+      }
+    }
+  };
+
+  const stat = await fs.stat(root);
+  if (stat.isDirectory()) {
+    await walk(root);
+  } else {
+    await searchFile(root);
+  }
+
+  if (matches.length === 0) {
+    return textResult("No matches found");
+  }
+  if (matches.length >= MAX_GREP_MATCHES) {
+    matches.push(`... (stopped after ${MAX_GREP_MATCHES} matches)`);
+  }
+  return textResult(matches.join("\n"));
+}
+
+export function nativeRunBash(command: string, signal?: AbortSignal): Promise<ClaudeToolResult> {
+  return new Promise((resolve) => {
+    exec(
+      command,
+      {
+        // claude_bash promises bash, not whatever /bin/sh is
+        shell: "/bin/bash",
+        timeout: BASH_TIMEOUT_MS,
+        maxBuffer: 1024 * 1024 * 10,
+        ...(signal && { signal }),
+      },
+      (error, stdout, stderr) => {
+        const output = `${stdout}${stderr ? `${stdout ? "\n" : ""}${stderr}` : ""}`;
+        if (error) {
+          const reason = signal?.aborted
+            ? "Command was cancelled"
+            : error.killed
+              ? `Command timed out after ${BASH_TIMEOUT_MS / 1000}s`
+              : `Command failed with exit code ${error.code ?? "unknown"}`;
+          resolve(textResult(`${output}${output ? "\n" : ""}${reason}`, true));
+        } else {
+          resolve(textResult(output || "(no output)"));
+        }
+      }
+    );
+  });
+}
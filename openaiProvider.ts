@@ -0,0 +1,288 @@
+import OpenAI, { AzureOpenAI } from "openai";
+import type {
+  Response,
+  ResponseCreateParamsNonStreaming,
+} from "openai/resources/responses/responses.js";
+
+export type ProviderKind = "openai" | "azure";
+
+export interface ModelCapabilities {
+  reasoningEffort: boolean;
+  webSearch: boolean;
+  // Responses API background mode (`background: true`, then polling)
+  background: boolean;
+}
+
+export interface ProviderConfig {
+  provider: ProviderKind;
+  model: string;
+  capabilities: ModelCapabilities;
+}
+
+// Known capabilities by model name prefix. First match wins, so more specific
+// prefixes must come before their shorter counterparts.
+const KNOWN_MODEL_CAPABILITIES: Array<[RegExp, Omit<ModelCapabilities, "background">]> = [
+  [/^o3-mini/, { reasoningEffort: true, webSearch: false }],
+  [/^o1/, { reasoningEffort: true, webSearch: false }],
+  [/^(o3|o4-mini|gpt-5)/, { reasoningEffort: true, webSearch: true }],
+  [/^(gpt-4\.1-nano)/, { reasoningEffort: false, webSearch: false }],
+  [/^(gpt-4\.1|gpt-4o|chatgpt-4o)/, { reasoningEffort: false, webSearch: true }],
+];
+
+const DEFAULT_MODEL_CAPABILITIES: Omit<ModelCapabilities, "background"> = {
+  reasoningEffort: true,
+  webSearch: true,
+};
+
+function parseBooleanEnv(value: string | undefined): boolean | undefined {
+  if (value === undefined) return undefined;
+  const normalized = value.trim().toLowerCase();
+  if (["1", "true", "yes", "on"].includes(normalized)) return true;
+  if (["0", "false", "no", "off"].includes(normalized)) return false;
+  return undefined;
+}
+
+// Background mode is available on the OpenAI API itself; Azure and
+// self-hosted gateways need MODEL_SUPPORTS_BACKGROUND=true
+export function resolveModelCapabilities(model: string, backgroundByDefault = false): ModelCapabilities {
+  const known = KNOWN_MODEL_CAPABILITIES.find(([pattern]) =>
+    pattern.test(model)
+  );
+  const capabilities = {
+    ...(known ? known[1] : DEFAULT_MODEL_CAPABILITIES),
+    background: backgroundByDefault,
+  };
+
+  // Explicit overrides for custom deployments and gateways whose model names
+  // don't tell us anything
+  const reasoningOverride = parseBooleanEnv(process.env.MODEL_SUPPORTS_REASONING_EFFORT);
+  if (reasoningOverride !== undefined) {
+    capabilities.reasoningEffort = reasoningOverride;
+  }
+  const webSearchOverride = parseBooleanEnv(process.env.MODEL_SUPPORTS_WEB_SEARCH);
+  if (webSearchOverride !== undefined) {
+    capabilities.webSearch = webSearchOverride;
+  }
+  const backgroundOverride = parseBooleanEnv(process.env.MODEL_SUPPORTS_BACKGROUND);
+  if (backgroundOverride !== undefined) {
+    capabilities.background = backgroundOverride;
+  }
+
+  return capabilities;
+}
+
+export function createOpenAIClient(): { openai: OpenAI; config: ProviderConfig } {
+  const provider: ProviderKind =
+    process.env.OPENAI_PROVIDER === "azure" ||
+    (!process.env.OPENAI_PROVIDER && process.env.AZURE_OPENAI_ENDPOINT)
+      ? "azure"
+      : "openai";
+
+  if (provider === "azure") {
+    const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
+    const apiKey = process.env.AZURE_OPENAI_API_KEY || process.env.OPENAI_API_KEY;
+    // On Azure the model name is the deployment name
+    const model = process.env.AZURE_OPENAI_DEPLOYMENT || process.env.OPENAI_MODEL || "o3";
+
+    if (!endpoint) {
+      throw new Error("AZURE_OPENAI_ENDPOINT environment variable is required for the azure provider");
+    }
+    if (!apiKey) {
+      throw new Error("AZURE_OPENAI_API_KEY (or OPENAI_API_KEY) environment variable is required for the azure provider");
+    }
+
+    const openai = new AzureOpenAI({
+      endpoint,
+      apiKey,
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2025-04-01-preview",
+    });
+
+    return {
+      openai,
+      config: { provider, model, capabilities: resolveModelCapabilities(model) },
+    };
+  }
+
+  const baseURL = process.env.OPENAI_BASE_URL;
+  // Self-hosted Responses-compatible gateways often don't check the key
+  const apiKey = process.env.OPENAI_API_KEY || (baseURL ? "not-needed" : undefined);
+  if (!apiKey) {
+    throw new Error("OPENAI_API_KEY environment variable is required");
+  }
+
+  const model = process.env.OPENAI_MODEL || "o3";
+  const openai = new OpenAI({
+    apiKey,
+    ...(baseURL && { baseURL }),
+  });
+
+  return {
+    openai,
+    config: { provider, model, capabilities: resolveModelCapabilities(model, !baseURL) },
+  };
+}
+
+// Strip request parameters the configured model is known not to support
+export function applyModelCapabilities(
+  params: ResponseCreateParamsNonStreaming,
+  capabilities: ModelCapabilities
+): ResponseCreateParamsNonStreaming {
+  const adapted = { ...params };
+  if (!capabilities.reasoningEffort) {
+    delete adapted.reasoning;
+  }
+  if (!capabilities.webSearch && adapted.tools) {
+    adapted.tools = adapted.tools.filter(
+      (tool) => tool.type !== "web_search_preview"
+    );
+    // tool_choice and parallel_tool_calls are rejected without any tools
+    if (adapted.tools.length === 0) {
+      delete adapted.tools;
+      delete adapted.tool_choice;
+      delete adapted.parallel_tool_calls;
+    }
+  }
+  return adapted;
+}
+
+// Detect "unsupported parameter" rejections so the request can be retried
+// without the offending feature
+function unsupportedCapability(error: unknown): keyof ModelCapabilities | null {
+  if (!(error instanceof OpenAI.APIError) || error.status !== 400) {
+    return null;
+  }
+  const param = error.param || "";
+  const message = error.message || "";
+  if (param.startsWith("reasoning") || /reasoning\.effort/.test(message)) {
+    return "reasoningEffort";
+  }
+  if (/web_search/.test(message) || (param.startsWith("tools") && /search/.test(message))) {
+    return "webSearch";
+  }
+  // Other rejections can mention background mode in passing (e.g. a request
+  // too large for it), so only the parameter itself counts
+  if (param === "background") {
+    return "background";
+  }
+  return null;
+}
+
+// Whether a request failed because its previous_response_id no longer
+// exists (expired, deleted, or created under another API key)
+export function isMissingPreviousResponse(error: unknown): boolean {
+  if (!(error instanceof OpenAI.APIError)) return false;
+  if (error.status !== 400 && error.status !== 404) return false;
+  return (
+    error.param === "previous_response_id" ||
+    /previous[_ ]response/i.test(error.message || "")
+  );
+}
+
+// Whether a request failed because its input, including the chain of
+// earlier responses it continues from, no longer fits the context window
+export function isContextLengthExceeded(error: unknown): boolean {
+  if (!(error instanceof OpenAI.APIError) || error.status !== 400) return false;
+  return (
+    error.code === "context_length_exceeded" ||
+    /context (length|window)/i.test(error.message || "")
+  );
+}
+
+export interface CreateResponseOptions {
+  // Run in background mode when the model supports it and poll for the result
+  background?: boolean | undefined;
+  // Cancels the request, and polling and the background response in
+  // background mode
+  signal?: AbortSignal | undefined;
+  // Called with the id of a background response once it is queued
+  onBackgroundResponse?: ((responseId: string) => void | Promise<void>) | undefined;
+  // How often to poll a background response. Default: 2 seconds
+  pollIntervalMs?: number | undefined;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+// Poll a background response until it leaves the queued/in_progress states.
+// Aborting cancels it on the server too.
+async function waitForBackgroundResponse(
+  openai: OpenAI,
+  response: Response,
+  options: CreateResponseOptions
+): Promise<Response> {
+  const { signal } = options;
+  let current = response;
+  while (current.status === "queued" || current.status === "in_progress") {
+    await sleep(options.pollIntervalMs ?? 2000, signal);
+    if (signal?.aborted) {
+      await openai.responses.cancel(current.id).catch((error) => {
+        process.stderr.write(
+          `[DEBUG] Failed to cancel background response ${current.id}: ${
+            error instanceof Error ? error.message : String(error)
+          }\n`
+        );
+      });
+      throw new Error(`Background response ${current.id} was cancelled`);
+    }
+    current = await openai.responses.retrieve(current.id, undefined, {
+      ...(signal && { signal }),
+    });
+  }
+  if (current.status === "failed" || current.status === "cancelled") {
+    throw new Error(
+      `Background response ${current.id} ${current.status}${
+        current.error?.message ? `: ${current.error.message}` : ""
+      }`
+    );
+  }
+  return current;
+}
+
+export async function createResponse(
+  openai: OpenAI,
+  params: ResponseCreateParamsNonStreaming,
+  capabilities: ModelCapabilities,
+  options: CreateResponseOptions = {}
+): Promise<Response> {
+  while (true) {
+    try {
+      // Aborting cancels the HTTP request
+      const requestOptions = { ...(options.signal && { signal: options.signal }) };
+      if (options.background && capabilities.background) {
+        const queued = await openai.responses.create(
+          {
+            ...applyModelCapabilities(params, capabilities),
+            background: true,
+            store: true,
+          },
+          requestOptions
+        );
+        await options.onBackgroundResponse?.(queued.id);
+        return await waitForBackgroundResponse(openai, queued, options);
+      }
+      return await openai.responses.create(
+        applyModelCapabilities(params, capabilities),
+        requestOptions
+      );
+    } catch (error) {
+      const capability = unsupportedCapability(error);
+      if (!capability || !capabilities[capability]) {
+        throw error;
+      }
+      process.stderr.write(
+        `[DEBUG] Model rejected ${capability}, retrying without it\n`
+      );
+      // Remember for the rest of the session so later calls skip the failed attempt
+      capabilities[capability] = false;
+    }
+  }
+}
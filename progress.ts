@@ -0,0 +1,61 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+
+export type ToolHandlerExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export type ProgressReporter = (message: string) => Promise<void>;
+
+// Maximum length of tool arguments echoed in progress messages
+const MAX_ARGS_PREVIEW = 200;
+
+// Create a reporter that emits notifications/progress for the current request.
+// Without a progress token the caller didn't ask for progress, so reports are
+// only written to stderr.
+export function createProgressReporter(extra: ToolHandlerExtra): ProgressReporter {
+  const progressToken = extra._meta?.progressToken;
+  let progress = 0;
+
+  return async (message: string) => {
+    process.stderr.write(`[PROGRESS] ${message}\n`);
+    if (progressToken === undefined) return;
+
+    progress++;
+    try {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, message },
+      });
+    } catch (error) {
+      // Progress is best-effort; never fail the request because of it
+      process.stderr.write(
+        `[DEBUG] Failed to send progress notification: ${
+          error instanceof Error ? error.message : String(error)
+        }\n`
+      );
+    }
+  };
+}
+
+export function describeToolCall(name: string, argumentsStr: string | undefined): string {
+  const preview = (argumentsStr || "").replace(/\s+/g, " ");
+  return preview.length > MAX_ARGS_PREVIEW
+    ? `${name}(${preview.slice(0, MAX_ARGS_PREVIEW)}...)`
+    : `${name}(${preview})`;
+}
+
+export function describeWebSearch(item: any): string {
+  const action = item.action;
+  if (action?.type === "search" && action.query) {
+    return `Web search: "${action.query}"`;
+  }
+  if (action?.type === "open_page" && action.url) {
+    return `Web search: opened ${action.url}`;
+  }
+  if (action?.type === "find" && action.pattern) {
+    return `Web search: find "${action.pattern}" in ${action.url || "page"}`;
+  }
+  return `Web search (${item.status || "completed"})`;
+}
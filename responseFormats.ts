@@ -0,0 +1,257 @@
+// Structured JSON output: the schemas callers can ask o3's final answer to
+// follow, and validation of the answer against them.
+
+type JsonSchema = Record<string, any>;
+
+export interface ResponseFormat {
+  name: string;
+  description?: string | undefined;
+  schema: JsonSchema;
+  strict: boolean;
+}
+
+// Where a finding or piece of evidence points in the code
+const locationProperties = {
+  file: { type: "string", description: "Path of the file, relative to the repository root" },
+  line: {
+    type: ["integer", "null"],
+    description: "1-based line number, or null when the point isn't tied to a line",
+  },
+};
+
+export const BUILTIN_RESPONSE_FORMATS = {
+  code_review: {
+    name: "code_review",
+    description: "Code review findings with file, line, severity and a suggested fix",
+    strict: true,
+    schema: {
+      type: "object",
+      properties: {
+        summary: { type: "string", description: "Overall assessment of the change" },
+        verdict: { type: "string", enum: ["approve", "request_changes", "comment"] },
+        findings: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              ...locationProperties,
+              severity: { type: "string", enum: ["critical", "major", "minor", "nit"] },
+              category: {
+                type: "string",
+                enum: ["bug", "security", "performance", "maintainability", "style", "test"],
+              },
+              issue: { type: "string", description: "What is wrong and why it matters" },
+              suggestion: { type: "string", description: "How to fix it, with code if helpful" },
+            },
+            required: ["file", "line", "severity", "category", "issue", "suggestion"],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ["summary", "verdict", "findings"],
+      additionalProperties: false,
+    },
+  },
+  bug_diagnosis: {
+    name: "bug_diagnosis",
+    description: "Root cause analysis of a bug with evidence and a proposed fix",
+    strict: true,
+    schema: {
+      type: "object",
+      properties: {
+        summary: { type: "string", description: "One-sentence description of the bug" },
+        root_cause: { type: "string" },
+        confidence: { type: "string", enum: ["high", "medium", "low"] },
+        evidence: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              ...locationProperties,
+              explanation: { type: "string" },
+            },
+            required: ["file", "line", "explanation"],
+            additionalProperties: false,
+          },
+        },
+        fix: {
+          type: "object",
+          properties: {
+            description: { type: "string" },
+            steps: { type: "array", items: { type: "string" } },
+          },
+          required: ["description", "steps"],
+          additionalProperties: false,
+        },
+        ruled_out: {
+          type: "array",
+          items: { type: "string" },
+          description: "Hypotheses that were checked and rejected",
+        },
+      },
+      required: ["summary", "root_cause", "confidence", "evidence", "fix", "ruled_out"],
+      additionalProperties: false,
+    },
+  },
+} satisfies Record<string, ResponseFormat>;
+
+export type BuiltinResponseFormat = keyof typeof BUILTIN_RESPONSE_FORMATS;
+
+export const BUILTIN_RESPONSE_FORMAT_NAMES = Object.keys(BUILTIN_RESPONSE_FORMATS) as [
+  BuiltinResponseFormat,
+  ...BuiltinResponseFormat[],
+];
+
+// Accept a built-in name, a bare JSON Schema, or {name, schema, strict, description}
+export function resolveResponseFormat(value: string | Record<string, unknown>): ResponseFormat {
+  if (typeof value === "string") {
+    const builtin = BUILTIN_RESPONSE_FORMATS[value as BuiltinResponseFormat];
+    if (!builtin) {
+      throw new Error(
+        `Unknown response_format "${value}". Use one of ${BUILTIN_RESPONSE_FORMAT_NAMES.join(", ")} or a JSON Schema`
+      );
+    }
+    return builtin;
+  }
+
+  const wrapped = value.schema && typeof value.schema === "object" && !("type" in value);
+  const schema = (wrapped ? value.schema : value) as JsonSchema;
+  if (schema.type !== "object") {
+    throw new Error('response_format schema must have "type": "object" at the root');
+  }
+  const name = wrapped && typeof value.name === "string" ? value.name : "custom_response";
+  if (!/^[a-zA-Z0-9_-]{1,64}$/.test(name)) {
+    throw new Error("response_format name may only contain letters, digits, _ and - (max 64)");
+  }
+  return {
+    name,
+    description: wrapped && typeof value.description === "string" ? value.description : undefined,
+    schema,
+    strict: wrapped && typeof value.strict === "boolean" ? value.strict : true,
+  };
+}
+
+// Responses API text.format for structured outputs
+export function toTextFormat(format: ResponseFormat) {
+  return {
+    type: "json_schema" as const,
+    name: format.name,
+    schema: format.schema,
+    strict: format.strict,
+    ...(format.description && { description: format.description }),
+  };
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  const match = /^#\/(\$defs|definitions)\/(.+)$/.exec(ref);
+  const resolved = match ? root[match[1]!]?.[match[2]!] : undefined;
+  if (!resolved) {
+    throw new Error(`Unsupported $ref in response_format schema: ${ref}`);
+  }
+  return resolved;
+}
+
+// Validate against the JSON Schema subset structured outputs support. Returns
+// one message per violation, empty when the value is valid.
+export function validateAgainstSchema(
+  schema: JsonSchema,
+  value: unknown,
+  root: JsonSchema = schema,
+  at = "$"
+): string[] {
+  if (schema.$ref) {
+    return validateAgainstSchema(resolveRef(root, schema.$ref), value, root, at);
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const branches = schema.anyOf.map((branch: JsonSchema) =>
+      validateAgainstSchema(branch, value, root, at)
+    );
+    return branches.some((errors: string[]) => errors.length === 0)
+      ? []
+      : [`${at}: does not match any of the allowed schemas`];
+  }
+
+  const actual = typeOf(value);
+  if (schema.type) {
+    const allowed: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches = allowed.includes(actual) || (actual === "integer" && allowed.includes("number"));
+    if (!matches) {
+      return [`${at}: expected ${allowed.join(" or ")}, got ${actual}`];
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    return [`${at}: must be one of ${schema.enum.map((item: unknown) => JSON.stringify(item)).join(", ")}`];
+  }
+  if ("const" in schema && schema.const !== value) {
+    return [`${at}: must be ${JSON.stringify(schema.const)}`];
+  }
+
+  const errors: string[] = [];
+  if (actual === "object") {
+    const record = value as Record<string, unknown>;
+    const properties: Record<string, JsonSchema> = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) errors.push(`${at}: missing required property "${key}"`);
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        errors.push(...validateAgainstSchema(propertySchema, item, root, `${at}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}: unexpected property "${key}"`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(...validateAgainstSchema(schema.additionalProperties, item, root, `${at}.${key}`));
+      }
+    }
+  } else if (actual === "array") {
+    const items = value as unknown[];
+    if (typeof schema.minItems === "number" && items.length < schema.minItems) {
+      errors.push(`${at}: expected at least ${schema.minItems} item(s)`);
+    }
+    if (typeof schema.maxItems === "number" && items.length > schema.maxItems) {
+      errors.push(`${at}: expected at most ${schema.maxItems} item(s)`);
+    }
+    if (schema.items) {
+      items.forEach((item, index) => {
+        errors.push(...validateAgainstSchema(schema.items, item, root, `${at}[${index}]`));
+      });
+    }
+  } else if (actual === "integer" || actual === "number") {
+    const number = value as number;
+    if (typeof schema.minimum === "number" && number < schema.minimum) {
+      errors.push(`${at}: must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && number > schema.maximum) {
+      errors.push(`${at}: must be <= ${schema.maximum}`);
+    }
+  } else if (actual === "string" && typeof schema.pattern === "string") {
+    if (!new RegExp(schema.pattern).test(value as string)) {
+      errors.push(`${at}: does not match pattern ${schema.pattern}`);
+    }
+  }
+  return errors;
+}
+
+// Parse o3's final text and check it against the requested schema
+export function parseStructuredResponse(
+  format: ResponseFormat,
+  text: string
+): { value: unknown; errors: string[] } {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return {
+      value: undefined,
+      errors: [`response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+  return { value, errors: validateAgainstSchema(format.schema, value) };
+}
@@ -0,0 +1,383 @@
+import { realpath } from "fs/promises";
+import path from "path";
+import type { ClaudeToolResult } from "./claudeTools.js";
+import { matchesPathGlob } from "./globMatch.js";
+import { selectWorkspace } from "./workspaces.js";
+
+export interface SandboxPolicy {
+  // Directories file tools may touch. Empty means no restriction.
+  allowedRoots: string[];
+  // Globs of paths no file tool may touch
+  deniedPaths: string[];
+  // Command prefixes bash may run. Empty means no restriction.
+  allowedCommands: string[];
+  // Command prefixes bash may never run
+  deniedCommands: string[];
+  // Disable mutating tools (edit, write, bash) entirely
+  readOnly: boolean;
+}
+
+export const MUTATING_TOOLS = ["claude_edit", "claude_write", "claude_bash"];
+
+const DEFAULT_DENIED_PATHS = [".env", ".env.*", ".git/**"];
+
+function parseList(value: string | undefined, separator: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  return value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export function loadSandboxPolicy(): SandboxPolicy {
+  return {
+    allowedRoots: (parseList(process.env.SANDBOX_ALLOWED_ROOTS, path.delimiter) ?? []).map(
+      (root) => path.resolve(root)
+    ),
+    deniedPaths: parseList(process.env.SANDBOX_DENIED_PATHS, ",") ?? DEFAULT_DENIED_PATHS,
+    allowedCommands: parseList(process.env.SANDBOX_ALLOWED_COMMANDS, ",") ?? [],
+    deniedCommands: parseList(process.env.SANDBOX_DENIED_COMMANDS, ",") ?? [],
+    readOnly: ["1", "true", "yes"].includes(
+      (process.env.SANDBOX_READ_ONLY || "").toLowerCase()
+    ),
+  };
+}
+
+export function describeSandboxPolicy(policy: SandboxPolicy): string {
+  return [
+    `read-only: ${policy.readOnly}`,
+    `allowed roots: ${policy.allowedRoots.join(", ") || "(any)"}`,
+    `denied paths: ${policy.deniedPaths.join(", ") || "(none)"}`,
+    `allowed commands: ${policy.allowedCommands.join(", ") || "(any)"}`,
+    `denied commands: ${policy.deniedCommands.join(", ") || "(none)"}`,
+  ].join("; ");
+}
+
+// Resolve symlinks so a link inside an allowed root can't point outside it.
+// Paths that don't exist yet (new files) resolve through their nearest
+// existing ancestor.
+async function resolveRealPath(target: string): Promise<string> {
+  const absolute = path.resolve(target);
+  let existing = absolute;
+  const missing: string[] = [];
+  while (true) {
+    try {
+      const resolved = await realpath(existing);
+      return path.join(resolved, ...missing);
+    } catch {
+      const parent = path.dirname(existing);
+      if (parent === existing) return absolute;
+      missing.unshift(path.basename(existing));
+      existing = parent;
+    }
+  }
+}
+
+function isInside(target: string, root: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+export async function checkPathAccess(policy: SandboxPolicy, target: string): Promise<void> {
+  if (!target) {
+    throw new Error("Sandbox policy violation: file path is required");
+  }
+  if (!path.isAbsolute(target)) {
+    throw new Error(`Sandbox policy violation: path must be absolute: ${target}`);
+  }
+
+  const resolved = await resolveRealPath(target);
+
+  if (policy.allowedRoots.length > 0) {
+    const roots = await Promise.all(policy.allowedRoots.map(resolveRealPath));
+    if (!roots.some((root) => isInside(resolved, root))) {
+      throw new Error(
+        `Sandbox policy violation: ${target} is outside the allowed roots (${policy.allowedRoots.join(", ")})`
+      );
+    }
+  }
+
+  for (const candidate of new Set([path.resolve(target), resolved])) {
+    const denied = policy.deniedPaths.find((glob) => matchesPathGlob(candidate, glob));
+    if (denied) {
+      throw new Error(`Sandbox policy violation: access to ${target} is denied by "${denied}"`);
+    }
+  }
+}
+
+// Split a shell command into its simple commands so every part of a chain or
+// pipeline is checked, not just the first program. A lone "&" ends a
+// command, but "&" in redirections (2>&1, <&3, &>file) does not.
+function splitCommand(command: string): string[] {
+  return command
+    .split(/&&|\|\||\|&|[;|\n]|(?<![<>])&(?!>)/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+// Programs that run another command given in their arguments, including
+// shells and eval, which run a script
+const COMMAND_WRAPPERS = new Set([
+  "sudo",
+  "doas",
+  "env",
+  "xargs",
+  "nohup",
+  "nice",
+  "time",
+  "timeout",
+  "exec",
+  "command",
+  "stdbuf",
+  "sh",
+  "bash",
+  "zsh",
+  "dash",
+  "ksh",
+  "eval",
+]);
+
+// Command and process substitution, which can run anything
+const SUBSTITUTION = /\$\(|`|<\(|>\(/;
+
+const ENV_ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+// Grouping and compound-command syntax that can come before the program
+// (( rm x ), { rm x; }, if rm x, then rm x, do rm x, ! rm x)
+const SHELL_KEYWORDS = new Set(["(", ")", "{", "}", "!", "if", "then", "else", "elif", "do", "while", "until"]);
+
+// Groups can hide a command anywhere in their words (f() { rm x; })
+const GROUPING = new Set(["(", ")", "{", "}"]);
+
+function commandWords(segment: string): string[] {
+  return segment.split(/\s+/);
+}
+
+// Programs match by exact name, or by the absolute path given in the policy,
+// so ./git or /tmp/evil/git don't pass an allowlisted "git". The denylist
+// also matches by basename, so "rm" denies /bin/rm.
+function matchesPrefixAt(words: string[], start: number, prefix: string, byBasename = false): boolean {
+  return prefix.split(/\s+/).every((word, index) => {
+    const actual = words[start + index];
+    if (actual === undefined) return false;
+    return actual === word || (byBasename && index === 0 && path.basename(actual) === word);
+  });
+}
+
+function matchesCommandPrefix(segment: string, prefix: string): boolean {
+  return matchesPrefixAt(commandWords(segment), 0, prefix);
+}
+
+// Words of a segment as the denylist sees them: unquoted, with parentheses
+// split off, and starting at the program after leading environment
+// assignments (FOO=bar rm) and shell keywords
+function deniedCommandWords(segment: string): string[] {
+  const words = commandWords(segment.replace(/[()]/g, " $& ").trim()).map((word) =>
+    word.replace(/["'\\]/g, "")
+  );
+  while (words.length > 1 && (ENV_ASSIGNMENT.test(words[0]!) || SHELL_KEYWORDS.has(words[0]!))) {
+    words.shift();
+  }
+  return words;
+}
+
+// Denied prefixes match programs by name even when invoked by path (/bin/rm)
+// or quoted ("rm"), and also match the command run by a wrapper (sudo rm,
+// xargs rm, sh -c 'rm x') or inside a group. Wrapper options aren't parsed,
+// so any later word counts.
+function matchesDeniedPrefix(segment: string, prefix: string): boolean {
+  const words = deniedCommandWords(segment);
+  if (!COMMAND_WRAPPERS.has(path.basename(words[0]!)) && !words.some((word) => GROUPING.has(word))) {
+    return matchesPrefixAt(words, 0, prefix, true);
+  }
+  return words.some((_, start) => matchesPrefixAt(words, start, prefix, true));
+}
+
+export function checkCommand(policy: SandboxPolicy, command: string): void {
+  if (!command || !command.trim()) {
+    throw new Error("Sandbox policy violation: command is required");
+  }
+
+  const segments = splitCommand(command);
+
+  if (policy.deniedCommands.length > 0) {
+    // The denylist only sees the words of a command, so it can't check what
+    // a substitution or a program named by a variable would run
+    if (SUBSTITUTION.test(command)) {
+      throw new Error(
+        "Sandbox policy violation: command substitution is not allowed when a command denylist is configured"
+      );
+    }
+    for (const segment of segments) {
+      if (deniedCommandWords(segment)[0]!.includes("$")) {
+        throw new Error(
+          `Sandbox policy violation: command "${segment}" runs a program named by a variable`
+        );
+      }
+      const denied = policy.deniedCommands.find((prefix) => matchesDeniedPrefix(segment, prefix));
+      if (denied) {
+        throw new Error(`Sandbox policy violation: command "${segment}" is denied by "${denied}"`);
+      }
+    }
+  }
+
+  if (policy.allowedCommands.length > 0) {
+    // Substitutions and subshells can run anything, so they can't be allowlisted
+    if (SUBSTITUTION.test(command)) {
+      throw new Error(
+        "Sandbox policy violation: command substitution is not allowed when a command allowlist is configured"
+      );
+    }
+    for (const segment of segments) {
+      // Assignments such as PATH=... or LD_PRELOAD=... change what an
+      // allowlisted command runs
+      if (ENV_ASSIGNMENT.test(commandWords(segment)[0]!)) {
+        throw new Error(
+          `Sandbox policy violation: command "${segment}" sets environment variables, which the allowlist doesn't allow`
+        );
+      }
+      if (!policy.allowedCommands.some((prefix) => matchesCommandPrefix(segment, prefix))) {
+        throw new Error(
+          `Sandbox policy violation: command "${segment}" is not in the allowlist (${policy.allowedCommands.join(", ")})`
+        );
+      }
+    }
+  }
+}
+
+// Check a tool call requested by o3 against the policy. Throws on violation.
+// workspaces are the request's repositories, where tools run by default.
+export async function checkToolCall(
+  policy: SandboxPolicy,
+  functionName: string,
+  args: any,
+  workspaces: string[]
+): Promise<void> {
+  if (policy.readOnly && MUTATING_TOOLS.includes(functionName)) {
+    throw new Error(`Sandbox policy violation: ${functionName} is disabled in read-only mode`);
+  }
+
+  switch (functionName) {
+    case "claude_view":
+    case "claude_edit":
+    case "claude_write":
+      await checkPathAccess(policy, args.file_path);
+      break;
+    case "claude_ls":
+    case "claude_grep":
+      await checkPathAccess(policy, args.path || selectWorkspace(workspaces));
+      break;
+    case "claude_bash":
+      // Only the command lists apply: the paths a command reads or writes
+      // aren't known, so allowedRoots and deniedPaths don't cover bash
+      checkCommand(policy, args.command);
+      break;
+    case "git_log":
+    case "git_show":
+    case "git_blame":
+    case "git_diff":
+    case "git_grep": {
+      // Repository-relative path filters of the read-only git tools,
+      // resolved in the repository the tool runs in
+      const denied =
+        args.path &&
+        policy.deniedPaths.find((glob) =>
+          matchesPathGlob(path.resolve(selectWorkspace(workspaces, args.repo), args.path), glob)
+        );
+      if (denied) {
+        throw new Error(`Sandbox policy violation: access to ${args.path} is denied by "${denied}"`);
+      }
+      break;
+    }
+  }
+}
+
+function isDeniedPath(policy: SandboxPolicy, root: string, file: string): boolean {
+  return (
+    file.trim() !== "" &&
+    policy.deniedPaths.some((glob) => matchesPathGlob(path.resolve(root, file), glob))
+  );
+}
+
+// File named by a "diff --git a/x b/y" header, old and new side
+function diffHeaderPaths(line: string): string[] | null {
+  const match = line.match(/^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/);
+  return match ? [match[1]!, match[2]!] : null;
+}
+
+// Keep the lines for which keep() is true; keep() counts what it drops
+function filterText(result: ClaudeToolResult, keep: (line: string) => boolean): ClaudeToolResult {
+  return {
+    ...result,
+    content: result.content.map((item) =>
+      item.type === "text" ? { ...item, text: item.text.split("\n").filter(keep).join("\n") } : item
+    ),
+  };
+}
+
+// Remove what the policy hides from a tool's result. A search or diff over an
+// allowed directory can still include denied files such as .env, so their
+// matching lines and diff sections are dropped.
+export function filterToolResult(
+  policy: SandboxPolicy,
+  functionName: string,
+  args: any,
+  result: ClaudeToolResult,
+  workspaces: string[]
+): ClaudeToolResult {
+  let hidden = 0;
+  let filtered: ClaudeToolResult;
+
+  switch (functionName) {
+    case "claude_grep": {
+      const root = path.resolve(args.path || selectWorkspace(workspaces));
+      filtered = filterText(result, (line) => {
+        // Native results are "path:line: text", Claude Code's are bare paths
+        const file = line.match(/^(.+?):\d+: /)?.[1] ?? line;
+        const denied = isDeniedPath(policy, root, file);
+        if (denied) hidden++;
+        return !denied;
+      });
+      break;
+    }
+    case "git_grep": {
+      // "path:line:text", prefixed with "ref:" when searching a ref
+      const root = selectWorkspace(workspaces, args.repo);
+      const prefix = args.ref ? `${args.ref}:` : "";
+      filtered = filterText(result, (line) => {
+        const unprefixed = prefix && line.startsWith(prefix) ? line.slice(prefix.length) : line;
+        const file = unprefixed.match(/^(.+?):\d+:/)?.[1];
+        const denied = file !== undefined && isDeniedPath(policy, root, file);
+        if (denied) hidden++;
+        return !denied;
+      });
+      break;
+    }
+    case "git_show":
+    case "git_diff": {
+      // Drop whole file sections, from their diff header to the next one
+      const root = selectWorkspace(workspaces, args.repo);
+      let inDenied = false;
+      filtered = filterText(result, (line) => {
+        const files = diffHeaderPaths(line);
+        if (files) {
+          inDenied = files.some((file) => isDeniedPath(policy, root, file));
+          if (inDenied) hidden++;
+        } else if (line.startsWith("diff ")) {
+          inDenied = false;
+        }
+        return !inDenied;
+      });
+      break;
+    }
+    default:
+      return result;
+  }
+
+  if (hidden === 0) return result;
+  filtered.content.push({
+    type: "text",
+    text: `(${hidden} result(s) in denied paths were removed by the sandbox policy)`,
+  });
+  return filtered;
+}
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { annotateOutputText, formatSources, type SourceCitation } from "../citations.js";
+import { message } from "./helpers/fakeResponsesApi.js";
+import { startHarness, type Harness } from "./helpers/harness.js";
+
+const answer = "Node 18 is end-of-life. ([nodejs.org](https://nodejs.org/en/about/eol?utm_source=openai)) Use Node 22.";
+const citation = {
+  type: "url_citation",
+  url: "https://nodejs.org/en/about/eol?utm_source=openai",
+  title: "Node.js EOL",
+  start_index: answer.indexOf("(["),
+  end_index: answer.indexOf(" Use"),
+};
+
+describe("citations", () => {
+  test("numbers cited pages and quotes the cited sentence", () => {
+    const sources: SourceCitation[] = [];
+    const text = annotateOutputText({ text: answer, annotations: [citation] }, sources);
+
+    assert.equal(
+      text,
+      "Node 18 is end-of-life. ([nodejs.org](https://nodejs.org/en/about/eol?utm_source=openai))[1] Use Node 22."
+    );
+    assert.deepEqual(sources, [
+      {
+        index: 1,
+        url: "https://nodejs.org/en/about/eol",
+        title: "Node.js EOL",
+        quotes: ["Node 18 is end-of-life."],
+      },
+    ]);
+  });
+
+  test("reuses numbers for repeated pages", () => {
+    const sources: SourceCitation[] = [];
+    const text = "A is true. B is true.";
+    annotateOutputText(
+      {
+        text,
+        annotations: [
+          { type: "url_citation", url: "https://a.example/", start_index: 0, end_index: 9 },
+          { type: "url_citation", url: "https://a.example/", start_index: 11, end_index: 20 },
+        ],
+      },
+      sources
+    );
+
+    assert.equal(sources.length, 1);
+    assert.deepEqual(sources[0]!.quotes, ["A is true", "B is true"]);
+    assert.equal(
+      formatSources(sources),
+      "**Sources:**\n1. [https://a.example/](https://a.example/)\n   > A is true\n   > B is true"
+    );
+  });
+});
+
+describe("citations in answers", () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  test("appends sources and stores them on the entry", async () => {
+    harness.api.enqueue([message(answer, [citation])]);
+
+    const text = await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "Which Node version?",
+      conversation_id: "cited",
+    });
+
+    assert.match(text, /\*\*Sources:\*\*\n1\. \[Node\.js EOL\]\(https:\/\/nodejs\.org\/en\/about\/eol\)/);
+
+    const exported = JSON.parse(
+      await harness.callTool("export-conversation", { conversation_id: "cited", format: "json" })
+    );
+    assert.equal(exported.entries[0].sources[0].url, "https://nodejs.org/en/about/eol");
+  });
+});
@@ -0,0 +1,229 @@
+import assert from "node:assert/strict";
+import { rmSync } from "fs";
+import { after, before, describe, test } from "node:test";
+import {
+  formatNumberedDiff,
+  parseUnifiedDiff,
+  toGitHubReview,
+  toGitLabDiscussions,
+  validateReview,
+} from "../codeReview.js";
+import { message } from "./helpers/fakeResponsesApi.js";
+import { createGitRepo, git, startHarness, type Harness } from "./helpers/harness.js";
+
+const diff = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,4 +1,5 @@ export function start() {
+ const a = 1;
+-const b = 2;
++const b = 3;
++const c = b * 2;
+ const d = 4;
+ const e = 5;
+@@ -20,2 +21,2 @@
+ return a;
+-}
++};
+diff --git a/old.ts b/renamed.ts
+similarity index 90%
+rename from old.ts
+rename to renamed.ts
+diff --git a/gone.ts b/gone.ts
+deleted file mode 100644
+--- a/gone.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-export {};
+diff --git a/logo.png b/logo.png
+Binary files a/logo.png and b/logo.png differ
+`;
+
+const finding = (file: string, line: number, start_line: number | null = null) => ({
+  file,
+  line,
+  start_line,
+  severity: "major",
+  category: "bug",
+  body: `Problem at ${file}:${line}`,
+  suggestion: null,
+});
+
+describe("diff parsing", () => {
+  test("parses files, hunks and line numbers", () => {
+    const files = parseUnifiedDiff(diff);
+    assert.deepEqual(
+      files.map((file) => [file.oldPath, file.newPath, file.binary, file.hunks.length]),
+      [
+        ["src/app.ts", "src/app.ts", false, 2],
+        ["old.ts", "renamed.ts", false, 0],
+        ["gone.ts", null, false, 1],
+        ["logo.png", "logo.png", true, 0],
+      ]
+    );
+
+    const [first, second] = files[0]!.hunks;
+    assert.equal(first!.heading, "export function start() {");
+    assert.deepEqual(first!.lines[2], { type: "add", content: "const b = 3;", newLine: 2 });
+    assert.deepEqual(first!.lines[4], { type: "context", content: "const d = 4;", oldLine: 3, newLine: 4 });
+    assert.deepEqual(second!.lines.map((line) => line.newLine ?? null), [21, null, 22]);
+  });
+
+  test("numbers new-side lines for the prompt", () => {
+    const numbered = formatNumberedDiff(parseUnifiedDiff(diff));
+    assert.match(numbered, / {5}3 \+const c = b \* 2;/);
+    assert.match(numbered, /\n {7}-const b = 2;/);
+    assert.match(numbered, /### gone\.ts \(deleted\)/);
+    assert.match(numbered, /### old\.ts → renamed\.ts/);
+    assert.match(numbered, /### logo\.png\n\(binary file/);
+  });
+});
+
+describe("review validation", () => {
+  const files = parseUnifiedDiff(diff);
+
+  test("keeps comments on new-side lines of a hunk", () => {
+    const review = validateReview(
+      {
+        summary: "Looks risky.",
+        verdict: "request_changes",
+        comments: [finding("src/app.ts", 3, 2), finding("./src/app.ts", 4), finding("src/app.ts", 22)],
+      },
+      files
+    );
+    assert.deepEqual(
+      review.comments.map((comment) => [comment.line, comment.startLine, comment.oldLine]),
+      [
+        [3, 2, undefined],
+        [4, undefined, 3],
+        [22, undefined, undefined],
+      ]
+    );
+    assert.deepEqual(review.rejected, []);
+  });
+
+  test("rejects lines outside the hunks and files outside the diff", () => {
+    const review = validateReview(
+      {
+        summary: "",
+        verdict: "comment",
+        comments: [
+          finding("src/app.ts", 10),
+          finding("src/other.ts", 1),
+          finding("gone.ts", 1),
+          finding("src/app.ts", 3, 21),
+        ],
+      },
+      files
+    );
+    assert.deepEqual(
+      review.rejected.map((comment) => comment.reason),
+      [
+        "line 10 is not in any hunk of src/app.ts",
+        "file is not part of the diff",
+        "file was deleted or renamed in this diff",
+      ]
+    );
+    // A start_line in another hunk narrows the comment to its line
+    assert.equal(review.comments.length, 1);
+    assert.equal(review.comments[0]!.startLine, undefined);
+  });
+
+  test("formats GitHub reviews and GitLab discussions", () => {
+    const review = validateReview(
+      {
+        summary: "Two issues.",
+        verdict: "request_changes",
+        comments: [finding("src/app.ts", 3, 2), finding("src/app.ts", 4), finding("nope.ts", 1)],
+      },
+      files
+    );
+    const commits = { baseSha: "base", startSha: "start", headSha: "head" };
+
+    const github = toGitHubReview(review, commits);
+    assert.equal(github.commit_id, "head");
+    assert.equal(github.event, "REQUEST_CHANGES");
+    assert.match(github.body, /Two issues\.\n\n\*\*Comments not tied to a changed line:\*\*\n- nope\.ts:1/);
+    assert.deepEqual(github.comments[0], {
+      path: "src/app.ts",
+      line: 3,
+      side: "RIGHT",
+      start_line: 2,
+      start_side: "RIGHT",
+      body: "**major** (bug): Problem at src/app.ts:3",
+    });
+
+    const gitlab = toGitLabDiscussions(review, commits);
+    assert.deepEqual(gitlab[1]!.position, {
+      position_type: "text",
+      base_sha: "base",
+      start_sha: "start",
+      head_sha: "head",
+      old_path: "src/app.ts",
+      new_path: "src/app.ts",
+      new_line: 4,
+      old_line: 3,
+    });
+  });
+});
+
+describe("review mode", () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness({
+      repoDir: createGitRepo([
+        { "src/app.ts": "export const retries = 1;\n" },
+        { "src/app.ts": "export const retries = 1;\nexport const timeout = -1;\n" },
+      ]),
+    });
+  });
+
+  after(async () => {
+    await harness.close();
+    rmSync(harness.repoDir, { recursive: true, force: true });
+  });
+
+  test("returns comments checked against the diff", async () => {
+    harness.api.enqueue([
+      message(
+        JSON.stringify({
+          summary: "Negative timeout.",
+          verdict: "request_changes",
+          comments: [finding("src/app.ts", 2), finding("src/app.ts", 40)],
+        })
+      ),
+    ]);
+
+    const result = await harness.client.callTool({
+      name: "ask-gpt-o3-extremely-smart",
+      arguments: { input: "Review this", from: "HEAD~1", to: "HEAD", review: true },
+    });
+
+    const request = harness.api.requests.at(-1);
+    assert.equal(request.text.format.name, "line_review");
+    assert.match(JSON.stringify(request.input), / {5}2 \+export const timeout = -1;/);
+
+    const content = result.content as Array<{ text: string }>;
+    assert.match(content[0]!.text, /^## Review: Request changes/);
+    assert.match(content[0]!.text, /### src\/app\.ts\n- \*\*L2\*\* \[major\/bug\]/);
+    assert.match(content[0]!.text, /line 40 is not in any hunk/);
+
+    const structured = result.structuredContent as any;
+    assert.equal(structured.comments.length, 1);
+    assert.equal(structured.githubReview.commit_id, git(harness.repoDir, "rev-parse", "HEAD").trim());
+    assert.equal(
+      structured.gitlabDiscussions[0].position.base_sha,
+      git(harness.repoDir, "rev-parse", "HEAD~1").trim()
+    );
+  });
+
+  test("requires a diff", async () => {
+    const text = await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "Review this",
+      review: true,
+    });
+    assert.match(text, /^Error: 'review' requires a diff/);
+  });
+});
@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { describe, test } from "node:test";
+import { ConfirmationManager, type ConfirmationConfig } from "../confirmation.js";
+
+const config: ConfirmationConfig = {
+  mode: "elicit",
+  timeoutMs: 120000,
+  allowConversationApproval: true,
+  tools: ["claude_bash"],
+};
+
+// A client that supports elicitation but never answers
+const silentClient = {
+  getClientCapabilities: () => ({ elicitation: {} }),
+  elicitInput: (_params: unknown, options: { signal?: AbortSignal }) =>
+    new Promise((_resolve, reject) => {
+      const cancel = () => reject(new Error("Request was cancelled"));
+      if (options.signal?.aborted) cancel();
+      options.signal?.addEventListener("abort", cancel);
+    }),
+} as unknown as Server;
+
+// A client that answers each elicitation with the next scripted result
+function answeringClient(
+  results: Array<{ action: string; content?: Record<string, unknown> }>,
+  capabilities: Record<string, unknown> = { elicitation: {} }
+) {
+  const prompts: string[] = [];
+  const server = {
+    getClientCapabilities: () => capabilities,
+    elicitInput: async (params: { message: string }) => {
+      prompts.push(params.message);
+      const result = results.shift();
+      if (!result) throw new Error("unexpected elicitation");
+      return result;
+    },
+  } as unknown as Server;
+  return { server, prompts };
+}
+
+const bashCall = (conversationId: string) => ({
+  conversationId,
+  functionName: "claude_bash",
+  args: { command: "npm test" },
+});
+
+describe("confirmation", () => {
+  test("runs the call when the user approves it", async () => {
+    const { server, prompts } = answeringClient([
+      { action: "accept", content: { approve: true } },
+    ]);
+    const manager = new ConfirmationManager(server, config);
+
+    await manager.confirm(bashCall("default"));
+    assert.deepEqual(prompts, ["o3 wants to run a command:\n\nnpm test"]);
+  });
+
+  test("rejects the call when the user declines or says no", async () => {
+    const { server } = answeringClient([
+      { action: "decline" },
+      { action: "accept", content: { approve: false } },
+      { action: "cancel" },
+    ]);
+    const manager = new ConfirmationManager(server, config);
+
+    for (let i = 0; i < 3; i++) {
+      await assert.rejects(manager.confirm(bashCall("default")), /claude_bash was rejected by the user/);
+    }
+  });
+
+  test("reuses an approval for the conversation but not for other conversations", async () => {
+    const { server, prompts } = answeringClient([
+      { action: "accept", content: { approve: true, approve_for_conversation: true } },
+      { action: "decline" },
+    ]);
+    const manager = new ConfirmationManager(server, config);
+
+    await manager.confirm(bashCall("first"));
+    await manager.confirm(bashCall("first"));
+    assert.equal(prompts.length, 1);
+
+    await assert.rejects(manager.confirm(bashCall("second")), /rejected by the user/);
+    assert.equal(prompts.length, 2);
+  });
+
+  test("ignores approve_for_conversation when conversation approval is disabled", async () => {
+    const { server, prompts } = answeringClient([
+      { action: "accept", content: { approve: true, approve_for_conversation: true } },
+      { action: "accept", content: { approve: true } },
+    ]);
+    const manager = new ConfirmationManager(server, { ...config, allowConversationApproval: false });
+
+    await manager.confirm(bashCall("first"));
+    await manager.confirm(bashCall("first"));
+    assert.equal(prompts.length, 2);
+  });
+
+  test("never asks in deny and auto modes", async () => {
+    const { server, prompts } = answeringClient([]);
+
+    await assert.rejects(
+      new ConfirmationManager(server, { ...config, mode: "deny" }).confirm(bashCall("default")),
+      /claude_bash was rejected: confirmation mode is "deny"/
+    );
+    await new ConfirmationManager(server, { ...config, mode: "auto" }).confirm(bashCall("default"));
+    assert.equal(prompts.length, 0);
+  });
+
+  test("rejects the call when the client cannot be asked", async () => {
+    const { server, prompts } = answeringClient([], {});
+    const manager = new ConfirmationManager(server, config);
+
+    await assert.rejects(
+      manager.confirm(bashCall("default")),
+      /claude_bash was rejected: the MCP client does not support elicitation/
+    );
+    assert.equal(prompts.length, 0);
+  });
+
+  test("only asks for the configured tools unless told to", async () => {
+    const { server, prompts } = answeringClient([{ action: "decline" }]);
+    const manager = new ConfirmationManager(server, config);
+
+    await manager.confirm({ conversationId: "default", functionName: "claude_ls", args: {} });
+    assert.equal(prompts.length, 0);
+    await assert.rejects(
+      manager.confirm({ conversationId: "default", functionName: "claude_ls", args: {}, alwaysConfirm: true }),
+      /claude_ls was rejected by the user/
+    );
+  });
+
+  test("stops waiting for the user when the request is cancelled", async () => {
+    const manager = new ConfirmationManager(silentClient, config);
+    const controller = new AbortController();
+    const confirmation = manager.confirm({
+      conversationId: "default",
+      functionName: "claude_bash",
+      args: { command: "npm test" },
+      signal: controller.signal,
+    });
+
+    controller.abort();
+    await assert.rejects(confirmation, /claude_bash was rejected: no confirmation received \(Request was cancelled\)/);
+  });
+});
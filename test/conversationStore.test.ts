@@ -0,0 +1,464 @@
+import assert from "node:assert/strict";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { after, before, describe, test } from "node:test";
+import OpenAI from "openai";
+import {
+  createLlmSummarizer,
+  estimateTokens,
+  truncatingSummarizer,
+  type Summarizer,
+} from "../contextSummarizer.js";
+import { ConversationStore, type Conversation } from "../conversationStore.js";
+import {
+  functionCall,
+  message,
+  startFakeResponsesApi,
+  type FakeResponsesApi,
+} from "./helpers/fakeResponsesApi.js";
+import { makeTempDir, startHarness, type Harness } from "./helpers/harness.js";
+
+describe("conversation persistence", () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  test("saves each turn with its audit trail", async () => {
+    harness.api.enqueue(
+      [functionCall("claude_ls", {}, "call_ls")],
+      [message("There is a README.")]
+    );
+
+    await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "What files are there?",
+      conversation_id: "persisted",
+    });
+
+    const file = path.join(harness.stateDir, "o3-search-mcp", "conversations", "persisted.json");
+    assert.ok(existsSync(file));
+    const conversation = JSON.parse(readFileSync(file, "utf-8"));
+    assert.equal(conversation.entries.length, 1);
+    assert.equal(conversation.entries[0].input, "What files are there?");
+    assert.match(conversation.entries[0].response, /There is a README\./);
+    assert.deepEqual(conversation.entries[0].audit.responseIds, ["resp_1", "resp_2"]);
+    assert.equal(conversation.entries[0].audit.toolCalls[0].name, "claude_ls");
+    assert.match(conversation.entries[0].audit.toolCalls[0].output, /README\.md/);
+  });
+
+  test("continues from the previous turn's response", async () => {
+    harness.api.enqueue([message("Yes, README.md.")]);
+
+    await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "Is there a readme?",
+      conversation_id: "persisted",
+    });
+
+    const request = harness.api.requests.at(-1);
+    assert.equal(request.previous_response_id, "resp_2");
+    assert.equal(request.input[0].content[0].text, "Is there a readme?");
+  });
+
+  test("replays earlier turns as text when the stored response expired", async () => {
+    harness.api.expire("resp_3");
+    harness.api.enqueue([message("Still README.md.")]);
+
+    await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "And now?",
+      conversation_id: "persisted",
+    });
+
+    const [rejected, replayed] = harness.api.requests.slice(-2);
+    assert.equal(rejected.previous_response_id, "resp_3");
+    assert.equal(replayed.previous_response_id, undefined);
+    const userMessage = replayed.input[0].content[0].text;
+    assert.match(userMessage, /## Previous Conversation Context/);
+    assert.match(userMessage, /What files are there\?/);
+    assert.match(userMessage, /And now\?$/);
+  });
+
+  test("replays earlier turns as text when the chain outgrew the context window", async () => {
+    harness.api.overflow("resp_4");
+    harness.api.enqueue([message("README.md, again.")]);
+
+    await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "Once more?",
+      conversation_id: "persisted",
+    });
+
+    const [rejected, replayed] = harness.api.requests.slice(-2);
+    assert.equal(rejected.previous_response_id, "resp_4");
+    assert.equal(replayed.previous_response_id, undefined);
+    assert.match(replayed.input[0].content[0].text, /## Previous Conversation Context[\s\S]*Once more\?$/);
+  });
+
+  test("reloads conversations after a restart", async () => {
+    await harness.restart();
+
+    const list = await harness.callTool("list-conversations");
+    assert.match(list, /\*\*persisted\*\*/);
+    assert.match(list, /Entries: 4/);
+
+    const exported = await harness.callTool("export-conversation", {
+      conversation_id: "persisted",
+      format: "json",
+    });
+    assert.equal(JSON.parse(exported).entries.length, 4);
+  });
+
+  test("renames and deletes conversations", async () => {
+    await harness.callTool("rename-conversation", {
+      conversation_id: "persisted",
+      new_conversation_id: "renamed",
+    });
+    const dir = path.join(harness.stateDir, "o3-search-mcp", "conversations");
+    assert.ok(existsSync(path.join(dir, "renamed.json")));
+    assert.ok(!existsSync(path.join(dir, "persisted.json")));
+
+    await harness.callTool("delete-conversation", { conversation_id: "renamed" });
+    assert.ok(!existsSync(path.join(dir, "renamed.json")));
+  });
+
+  test("rejects conversation IDs that leave the conversations directory", async () => {
+    // A file the server can write, one level above the conversations
+    const outside = path.join(harness.stateDir, "o3-search-mcp", "probe.json");
+    writeFileSync(outside, "{}");
+
+    for (const tool of [
+      "delete-conversation",
+      "reset-conversation",
+      "get-conversation",
+      "export-conversation",
+      "get-audit-trail",
+      "usage-report",
+    ]) {
+      const result = await harness.client.callTool({
+        name: tool,
+        arguments: { conversation_id: "../probe" },
+      });
+      assert.equal(result.isError, true, tool);
+      assert.match((result.content as Array<{ text: string }>)[0]!.text, /Invalid conversation ID: \.\.\/probe/);
+    }
+    assert.match(
+      await harness.callTool("ask-gpt-o3-extremely-smart", { input: "Hi", conversation_id: "../probe" }),
+      /^Error: Invalid conversation ID/
+    );
+    assert.ok(existsSync(outside));
+  });
+
+  test("keeps working with saved IDs outside the usual characters", async () => {
+    const dir = path.join(harness.stateDir, "o3-search-mcp", "conversations");
+    const saved: Conversation = {
+      id: "auth bug",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      updatedAt: "2025-01-01T00:00:00.000Z",
+      entries: [{ timestamp: "2025-01-01T00:00:00.000Z", input: "Why does login loop?", response: "A stale cookie." }],
+    };
+    writeFileSync(path.join(dir, "auth bug.json"), JSON.stringify(saved));
+    await harness.restart();
+
+    assert.match(await harness.callTool("list-conversations"), /\*\*auth bug\*\*/);
+    assert.match(await harness.callTool("get-conversation", { conversation_id: "auth bug" }), /A stale cookie\./);
+
+    harness.api.enqueue([message("Clear the cookie.")]);
+    await harness.callTool("ask-gpt-o3-extremely-smart", { input: "Fix?", conversation_id: "auth bug" });
+    assert.equal(JSON.parse(readFileSync(path.join(dir, "auth bug.json"), "utf-8")).entries.length, 2);
+
+    harness.api.enqueue([message("Noted.")]);
+    await harness.callTool("ask-gpt-o3-extremely-smart", { input: "Track it", conversation_id: "PR #123" });
+    assert.ok(existsSync(path.join(dir, "PR #123.json")));
+
+    await harness.callTool("delete-conversation", { conversation_id: "auth bug" });
+    assert.ok(!existsSync(path.join(dir, "auth bug.json")));
+  });
+});
+
+describe("audit trail tool", () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+    harness.api.enqueue(
+      [
+        functionCall("claude_ls", {}, "call_ls"),
+        functionCall("claude_view", { file_path: path.join(harness.repoDir, "README.md") }, "call_view"),
+      ],
+      [message("Read the readme.")],
+      [message("Nothing else.")]
+    );
+    await harness.callTool("ask-gpt-o3-extremely-smart", { input: "Look around", conversation_id: "audited" });
+    await harness.callTool("ask-gpt-o3-extremely-smart", { input: "Anything else?", conversation_id: "audited" });
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  test("shows every entry's tool calls", async () => {
+    const text = await harness.callTool("get-audit-trail", { conversation_id: "audited" });
+    assert.match(text, /^## Audit trail: audited\n/);
+    assert.match(text, /### Entry 1 [\s\S]*✓ claude_ls [\s\S]*✓ claude_view [\s\S]*### Entry 2 /);
+    assert.match(text, /Continued from response: resp_2/);
+  });
+
+  test("filters by entry and tool name", async () => {
+    const second = await harness.callTool("get-audit-trail", { conversation_id: "audited", entry: 2 });
+    assert.match(second, /### Entry 2 /);
+    assert.doesNotMatch(second, /### Entry 1 /);
+
+    const json = JSON.parse(
+      await harness.callTool("get-audit-trail", { conversation_id: "audited", tool_name: "claude_view", format: "json" })
+    );
+    assert.deepEqual(json.map((item: any) => [item.entry, item.input]), [[1, "Look around"], [2, "Anything else?"]]);
+    assert.deepEqual(json[0].audit.toolCalls.map((call: any) => [call.name, call.callId]), [["claude_view", "call_view"]]);
+    assert.deepEqual(json[1].audit.toolCalls, []);
+  });
+
+  test("reports unknown conversations and entries", async () => {
+    for (const [args, error] of [
+      [{ conversation_id: "nope" }, /Conversation "nope" not found\./],
+      [{ conversation_id: "audited", entry: 5 }, /No matching entries\./],
+    ] as const) {
+      const result = await harness.client.callTool({ name: "get-audit-trail", arguments: args });
+      assert.equal(result.isError, true);
+      assert.match((result.content as Array<{ text: string }>)[0]!.text, error);
+    }
+  });
+});
+
+describe("conversation forks", () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+    for (const turn of ["one", "two", "three"]) {
+      harness.api.enqueue([message(`Answer ${turn}.`)]);
+      await harness.callTool("ask-gpt-o3-extremely-smart", {
+        input: `Question ${turn}?`,
+        conversation_id: "main",
+      });
+    }
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  test("copies entries up to the fork point", async () => {
+    const text = await harness.callTool("fork-conversation", {
+      conversation_id: "main",
+      entry: 2,
+      new_conversation_id: "alt",
+    });
+    assert.match(text, /Forked "main" after entry 2 into "alt"/);
+
+    const fork = JSON.parse(
+      await harness.callTool("export-conversation", { conversation_id: "alt", format: "json" })
+    );
+    assert.equal(fork.entries.length, 2);
+    // Spend of the copied turns stays with "main"
+    assert.deepEqual(fork.entries.map((entry: any) => entry.usage), [undefined, undefined]);
+    assert.match(
+      await harness.callTool("usage-report", { conversation_id: "alt" }),
+      /1\. .*: copied from main, where its usage is counted/
+    );
+    assert.equal(fork.forkedFrom.conversationId, "main");
+    assert.equal(fork.forkedFrom.entryCount, 2);
+
+    harness.api.enqueue([message("Alternative answer.")]);
+    await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "What if it's something else?",
+      conversation_id: "alt",
+    });
+    assert.equal(harness.api.requests.at(-1).previous_response_id, "resp_2");
+  });
+
+  test("shows lineage and follows renames", async () => {
+    await harness.callTool("fork-conversation", { conversation_id: "main" });
+    await harness.callTool("rename-conversation", {
+      conversation_id: "main",
+      new_conversation_id: "trunk",
+    });
+
+    const list = await harness.callTool("list-conversations");
+    assert.match(list, /\*\*trunk\*\*[^]*Forks: alt, main-fork-1/);
+    assert.match(list, /\*\*alt\*\*[^]*Forked from: trunk after entry 2/);
+    assert.match(list, /\*\*main-fork-1\*\*[^]*Forked from: trunk after entry 3/);
+  });
+
+  test("rejects fork points outside the conversation", async () => {
+    const text = await harness.callTool("fork-conversation", { conversation_id: "trunk", entry: 4 });
+    assert.match(text, /Fork point must be between 1 and 3/);
+  });
+});
+
+describe("text replay continuity", () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness({ env: { CONVERSATION_CONTINUITY: "text" } });
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  test("sends earlier turns as context", async () => {
+    harness.api.enqueue([message("There is a README.")], [message("Yes, README.md.")]);
+
+    await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "What files are there?",
+      conversation_id: "replayed",
+    });
+    await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "Is there a readme?",
+      conversation_id: "replayed",
+    });
+
+    const request = harness.api.requests.at(-1);
+    assert.equal(request.previous_response_id, undefined);
+    const userMessage = request.input[0].content[0].text;
+    assert.match(userMessage, /## Previous Conversation Context/);
+    assert.match(userMessage, /What files are there\?/);
+    assert.match(userMessage, /Is there a readme\?$/);
+  });
+});
+
+describe("conversation context", () => {
+  let store: ConversationStore;
+  let api: FakeResponsesApi;
+
+  // Turns of a little over 1000 tokens each
+  const conversationOf = (turns: number): Conversation => ({
+    id: "context",
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    entries: Array.from({ length: turns }, (_, i) => ({
+      timestamp: new Date().toISOString(),
+      input: `Question ${i + 1}: ${"x".repeat(4000)}`,
+      response: `Answer ${i + 1}`,
+    })),
+  });
+
+  // Records what it was asked to fold in
+  const recordingSummarizer = () => {
+    const calls: Array<{ previousSummary: string; inputs: string[] }> = [];
+    const summarizer: Summarizer = async (previousSummary, entries) => {
+      calls.push({ previousSummary, inputs: entries.map((entry) => entry.input.slice(0, 11)) });
+      return { text: `Summary ${calls.length}` };
+    };
+    return { calls, summarizer };
+  };
+
+  before(async () => {
+    process.env.XDG_STATE_HOME = makeTempDir("state");
+    store = new ConversationStore();
+    api = await startFakeResponsesApi();
+    // The store creates and loads its (empty) directory in the background
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  });
+
+  after(async () => {
+    await api.close();
+  });
+
+  test("keeps the recent turns that fit the budget and summarizes the rest", async () => {
+    const conversation = conversationOf(6);
+    const { calls, summarizer } = recordingSummarizer();
+
+    const context = await store.getConversationContext(conversation, {
+      tokenBudget: 2500,
+      summaryTokens: 500,
+      summarizer,
+    });
+
+    assert.deepEqual(calls, [
+      {
+        previousSummary: "",
+        inputs: ["Question 1:", "Question 2:", "Question 3:", "Question 4:", "Question 5:"],
+      },
+    ]);
+    assert.match(context, /### Summary of Earlier Conversation \(5 turns\):\nSummary 1\n/);
+    assert.match(context, /Question 6:/);
+    assert.doesNotMatch(context, /Question 5:/);
+    assert.ok(estimateTokens(context) <= 2500);
+    assert.equal(conversation.summary?.coveredEntries, 5);
+  });
+
+  test("folds only the newly overflowing turns into the existing summary", async () => {
+    const conversation = conversationOf(6);
+    const { calls, summarizer } = recordingSummarizer();
+    const options = { tokenBudget: 2500, summaryTokens: 500, summarizer };
+
+    await store.getConversationContext(conversation, options);
+    conversation.entries.push(conversationOf(7).entries[6]!);
+    const context = await store.getConversationContext(conversation, options);
+
+    assert.deepEqual(calls[1], { previousSummary: "Summary 1", inputs: ["Question 6:"] });
+    assert.equal(conversation.summary?.coveredEntries, 6);
+    assert.match(context, /\(6 turns\):\nSummary 2\n/);
+    assert.match(context, /Question 7:/);
+
+    // Nothing new overflowed, so the summary is reused as it is
+    await store.getConversationContext(conversation, options);
+    assert.equal(calls.length, 2);
+  });
+
+  test("drops turns that don't fit when summarization is off", async () => {
+    const context = await store.getConversationContext(conversationOf(6), {
+      tokenBudget: 2500,
+      summaryTokens: 500,
+    });
+
+    // The whole budget goes to verbatim turns
+    assert.doesNotMatch(context, /Summary of Earlier Conversation/);
+    assert.doesNotMatch(context, /Question 4:/);
+    assert.match(context, /Question 5:[\s\S]*Question 6:/);
+  });
+
+  test("keeps each query and the head of each answer in truncate mode", async () => {
+    const conversation = conversationOf(6);
+
+    await store.getConversationContext(conversation, {
+      tokenBudget: 2500,
+      summaryTokens: 500,
+      summarizer: truncatingSummarizer,
+    });
+
+    const summary = conversation.summary?.text ?? "";
+    assert.match(summary, /^- Q: Question 1: x+/);
+    assert.match(summary, /- Q: Question 5: x+/);
+    assert.ok(estimateTokens(summary) <= 500 + 5);
+  });
+
+  test("summarizes with the model in llm mode and falls back to truncation", async () => {
+    const openai = new OpenAI({ apiKey: "test-key", baseURL: api.baseURL, maxRetries: 0 });
+    const summarizer = createLlmSummarizer(openai, "o3", null);
+    const summaryModels: string[] = [];
+    const options = {
+      tokenBudget: 2500,
+      summaryTokens: 500,
+      summarizer,
+      onSummaryUsage: (usage: { model: string }) => summaryModels.push(usage.model),
+    };
+
+    api.enqueue([message("Questions 1-5 were about x.")]);
+    const conversation = conversationOf(6);
+    const context = await store.getConversationContext(conversation, options);
+
+    assert.match(api.requests.at(-1).input, /## New turns\nUser \([^)]*\):\nQuestion 1:/);
+    assert.match(context, /\(5 turns\):\nQuestions 1-5 were about x\.\n/);
+    assert.deepEqual(summaryModels, ["o3"]);
+
+    // No scripted response left: the API call fails
+    conversation.entries.push(conversationOf(7).entries[6]!);
+    await store.getConversationContext(conversation, options);
+    assert.match(conversation.summary?.text ?? "", /^Questions 1-5 were about x\.\n- Q: Question 6:/);
+    assert.deepEqual(summaryModels, ["o3"]);
+  });
+});
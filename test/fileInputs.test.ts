@@ -0,0 +1,224 @@
+import assert from "node:assert/strict";
+import { mkdirSync, rmSync, writeFileSync } from "fs";
+import path from "path";
+import { after, before, describe, test } from "node:test";
+import { formatFileInputsReport, readFileInputs, type FileInputLimits } from "../fileInputs.js";
+import { functionCall, message } from "./helpers/fakeResponsesApi.js";
+import { createGitRepo, makeTempDir, startHarness, type Harness } from "./helpers/harness.js";
+
+const limits: FileInputLimits = {
+  maxFileBytes: 1000,
+  maxTotalBytes: 10000,
+  maxFiles: 50,
+  maxAttachmentBytes: 100,
+  maxTotalAttachmentBytes: 150,
+  maxListedFiles: 100,
+};
+
+describe("file inputs", () => {
+  let repoDir: string;
+
+  before(() => {
+    repoDir = createGitRepo([
+      {
+        ".gitignore": "dist/\n",
+        "src/app.ts": "export const app = 1;\n",
+        "src/app.test.ts": "test();\n",
+        "src/util/strings.ts": "export const s = '';\n",
+        ".env": "SECRET=1\n",
+      },
+    ]);
+    mkdirSync(path.join(repoDir, "dist"));
+    writeFileSync(path.join(repoDir, "dist/app.js"), "built\n");
+    writeFileSync(path.join(repoDir, "src/logo.png"), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 1, 2]));
+    writeFileSync(path.join(repoDir, "src/data.bin"), Buffer.from([1, 0, 2]));
+    writeFileSync(path.join(repoDir, "src/spec.pdf"), "%PDF-1.4\n" + "x".repeat(200));
+    writeFileSync(path.join(repoDir, "src/big.log"), "x".repeat(5000));
+  });
+
+  after(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  test("expands directories respecting .gitignore and the sandbox", async () => {
+    const inputs = await readFileInputs([repoDir], limits, [".env"]);
+    const included = inputs.included.map((file) => path.relative(repoDir, file.path));
+
+    assert.deepEqual(included, [".gitignore", "src/app.test.ts", "src/app.ts", "src/big.log", "src/util/strings.ts"]);
+    assert.deepEqual(
+      inputs.skipped.map((file) => [path.relative(repoDir, file.path), file.reason]),
+      [
+        [".env", "denied by sandbox policy"],
+        ["src/data.bin", "binary file (3 bytes)"],
+        ["src/spec.pdf", "pdf of 209 bytes exceeds the 100 byte attachment limit"],
+      ]
+    );
+    assert.deepEqual(inputs.attachments, [
+      {
+        path: path.join(repoDir, "src/logo.png"),
+        kind: "image",
+        mimeType: "image/png",
+        data: "iVBORwABAg==",
+        bytes: 7,
+      },
+    ]);
+    const big = inputs.included.find((file) => file.path.endsWith("big.log"))!;
+    assert.equal(big.truncated, true);
+    assert.equal(big.content.length, 1000);
+  });
+
+  test("stops attaching at the attachment budget", async () => {
+    const inputs = await readFileInputs(
+      [path.join(repoDir, "src/logo.png"), path.join(repoDir, "src/spec.pdf")],
+      { ...limits, maxAttachmentBytes: 1000, maxTotalAttachmentBytes: 100 }
+    );
+
+    assert.deepEqual(inputs.attachments.map((file) => path.basename(file.path)), ["logo.png"]);
+    assert.deepEqual(inputs.skipped, [
+      {
+        path: path.join(repoDir, "src/spec.pdf"),
+        reason: "pdf of 209 bytes exceeds the remaining attachment budget of 93 bytes",
+      },
+    ]);
+  });
+
+  test("expands glob patterns", async () => {
+    const inputs = await readFileInputs([path.join(repoDir, "src/**/*.ts"), path.join(repoDir, "*.md")], limits);
+
+    assert.deepEqual(
+      inputs.included.map((file) => path.relative(repoDir, file.path)),
+      ["src/app.test.ts", "src/app.ts", "src/util/strings.ts"]
+    );
+    assert.deepEqual(inputs.skipped, [{ path: path.join(repoDir, "*.md"), reason: "pattern matched no files" }]);
+  });
+
+  test("rejects patterns that start at the filesystem root", async () => {
+    const inputs = await readFileInputs(["/**/*.ts", "/*"], limits);
+
+    assert.deepEqual(inputs.included, []);
+    assert.deepEqual(
+      inputs.skipped.map((file) => file.reason),
+      Array(2).fill("pattern starts at the filesystem root; put a directory before the first wildcard")
+    );
+  });
+
+  test("skips directories and patterns that list too many files", async () => {
+    const plainDir = makeTempDir("plain");
+    for (const name of ["a.txt", "b.txt", "c.txt", "d.txt"]) {
+      writeFileSync(path.join(plainDir, name), "x\n");
+    }
+    const narrowLimits = { ...limits, maxListedFiles: 3 };
+
+    const inputs = await readFileInputs(
+      [repoDir, path.join(repoDir, "**/*.ts"), plainDir, path.join(plainDir, "a.txt")],
+      narrowLimits
+    );
+
+    assert.deepEqual(inputs.included.map((file) => file.path), [path.join(plainDir, "a.txt")]);
+    assert.deepEqual(inputs.skipped, [
+      {
+        path: repoDir,
+        reason: `cannot expand directory: more than 3 files under ${repoDir}; name a narrower directory or pattern`,
+      },
+      {
+        path: path.join(repoDir, "**/*.ts"),
+        reason: `cannot expand pattern: more than 3 files under ${repoDir}; name a narrower directory or pattern`,
+      },
+      {
+        path: plainDir,
+        reason: `cannot expand directory: more than 3 files under ${plainDir}; name a narrower directory or pattern`,
+      },
+    ]);
+    rmSync(plainDir, { recursive: true, force: true });
+  });
+
+  test("stops at the byte budget and file limit", async () => {
+    const inputs = await readFileInputs([path.join(repoDir, "src")], {
+      maxFileBytes: 1000,
+      maxTotalBytes: 30,
+      maxFiles: 2,
+      maxAttachmentBytes: 100,
+      maxTotalAttachmentBytes: 150,
+      maxListedFiles: 100,
+    });
+
+    assert.deepEqual(
+      inputs.included.map((file) => [path.basename(file.path), file.bytes]),
+      [["app.test.ts", 8], ["app.ts", 22]]
+    );
+    assert.deepEqual(inputs.skipped, []);
+    assert.deepEqual(inputs.omitted, [{ count: 5, reason: "file limit of 2 reached" }]);
+    assert.match(formatFileInputsReport(inputs), /\*\*Files skipped \(5\):\*\*\n- 5 more files skipped: file limit of 2 reached$/);
+  });
+
+  test("counts files past the byte budget in one line", async () => {
+    const inputs = await readFileInputs(
+      [path.join(repoDir, "src/app.ts"), path.join(repoDir, "src/app.test.ts"), path.join(repoDir, "src/util/strings.ts")],
+      { ...limits, maxTotalBytes: 10 }
+    );
+
+    assert.deepEqual(inputs.included.map((file) => path.basename(file.path)), ["app.ts"]);
+    assert.deepEqual(inputs.omitted, [{ count: 2, reason: "byte budget of 10 bytes used up" }]);
+  });
+});
+
+describe("file_paths expansion", () => {
+  let harness: Harness;
+
+  before(async () => {
+    const repoDir = createGitRepo([{ "src/a.ts": "const a = 1;\n", "src/b.ts": "const b = 2;\n" }]);
+    writeFileSync(path.join(repoDir, "screenshot.png"), Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    harness = await startHarness({ repoDir });
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  test("sends expanded files and reports them", async () => {
+    harness.api.enqueue([message("Two files.")]);
+
+    const text = await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "What's here?",
+      file_paths: [path.join(harness.repoDir, "src"), path.join(harness.repoDir, "missing.ts")],
+    });
+
+    const files = harness.api.requests.at(-1).input.at(-1).content[0].text;
+    assert.match(files, /## File: .*src\/a\.ts\n```\nconst a = 1;/);
+    assert.match(files, /## File: .*src\/b\.ts/);
+    assert.match(text, /\*\*Files included \(2\):\*\*\n- .*src\/a\.ts \(13 bytes\)/);
+    assert.match(text, /\*\*Files skipped \(1\):\*\*\n- .*missing\.ts: ENOENT/);
+  });
+
+  test("attaches images as input_image items", async () => {
+    harness.api.enqueue([message("A screenshot.")]);
+
+    const text = await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "What's broken?",
+      file_paths: [path.join(harness.repoDir, "screenshot.png")],
+    });
+
+    const attachment = harness.api.requests.at(-1).input.at(-1);
+    assert.equal(attachment.role, "user");
+    assert.deepEqual(attachment.content[1], {
+      type: "input_image",
+      detail: "auto",
+      image_url: "data:image/png;base64,iVBORw==",
+    });
+    assert.match(text, /\*\*Files attached \(1\):\*\*\n- .*screenshot\.png \(image, 4 bytes\)/);
+  });
+
+  test("forwards images returned by claude_view", async () => {
+    harness.api.enqueue(
+      [functionCall("claude_view", { file_path: path.join(harness.repoDir, "screenshot.png") }, "call_img")],
+      [message("Seen.")]
+    );
+
+    await harness.callTool("ask-gpt-o3-extremely-smart", { input: "Look at the screenshot" });
+
+    const [output, images] = harness.api.requests.at(-1).input;
+    assert.equal(output.call_id, "call_img");
+    assert.match(output.output, /\[Image 1 \(image\/png\) is attached in the next message\]/);
+    assert.equal(images.content[1].image_url, "data:image/png;base64,iVBORw==");
+  });
+});
@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { rmSync } from "fs";
+import path from "path";
+import { after, before, describe, test } from "node:test";
+import { FileOverlay } from "../fileOverlay.js";
+import { createGitRepo } from "./helpers/harness.js";
+
+describe("file overlay", () => {
+  let repoDir: string;
+
+  before(() => {
+    repoDir = createGitRepo([{ "src/app.ts": "export const answer = 42;\n" }]);
+  });
+
+  after(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  test("treats differently spelled paths to one file as the same file", async () => {
+    const overlay = new FileOverlay();
+    await overlay.edit(`${repoDir}/src/./app.ts`, "42", "43");
+    await overlay.edit(`${repoDir}/lib/../src/app.ts`, "43", "44");
+
+    assert.ok(overlay.has(path.join(repoDir, "src/app.ts")));
+    assert.equal(
+      overlay.diff(repoDir),
+      [
+        "diff --git a/src/app.ts b/src/app.ts",
+        "--- a/src/app.ts",
+        "+++ b/src/app.ts",
+        "@@ -1,1 +1,1 @@",
+        "-export const answer = 42;",
+        "+export const answer = 44;",
+        "",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { rmSync, writeFileSync } from "fs";
+import path from "path";
+import { after, before, describe, test } from "node:test";
+import { executeDiff } from "../gitDiff.js";
+import { message } from "./helpers/fakeResponsesApi.js";
+import { createGitRepo, git, startHarness, type Harness } from "./helpers/harness.js";
+
+describe("executeDiff", () => {
+  let repoDir: string;
+  const cwd = process.cwd();
+
+  before(() => {
+    repoDir = createGitRepo([
+      { "src/api/handler.ts": "one\n", "README.md": "readme\n" },
+      { "src/api/handler.ts": "one\ntwo\n", "README.md": "readme v2\n" },
+    ]);
+    process.chdir(repoDir);
+  });
+
+  after(() => {
+    process.chdir(cwd);
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  test("compares two refs", async () => {
+    const result = await executeDiff({ from: "HEAD~1", to: "HEAD" });
+    assert.equal(result.summary, "2 files changed, 2 insertions(+), 1 deletions(-)");
+  });
+
+  test("limits the diff with pathspecs", async () => {
+    const result = await executeDiff({ from: "HEAD~1", to: "HEAD", paths: ["src/api/**"] });
+    assert.equal(result.summary, "1 files changed, 1 insertions(+), 0 deletions(-)");
+    assert.doesNotMatch(result.content, /README/);
+  });
+
+  test("shows only staged changes", async () => {
+    writeFileSync(path.join(repoDir, "README.md"), "staged\n");
+    git(repoDir, "add", "README.md");
+    writeFileSync(path.join(repoDir, "src/api/handler.ts"), "unstaged\n");
+
+    const result = await executeDiff({ staged: true });
+    assert.match(result.command, /--cached/);
+    assert.match(result.content, /\+staged/);
+    assert.doesNotMatch(result.content, /unstaged/);
+
+    git(repoDir, "reset", "-q", "--hard");
+  });
+
+  test("shows a single commit", async () => {
+    const result = await executeDiff({ commit: "HEAD" });
+    assert.match(result.content, /commit 2/);
+    assert.match(result.content, /\+two/);
+  });
+
+  test("rejects option injection", async () => {
+    await assert.rejects(executeDiff({ from: "--output=/tmp/x" }), /Invalid git reference/);
+    await assert.rejects(executeDiff({ from: "HEAD", paths: ["../outside"] }), /Invalid path filter/);
+    await assert.rejects(executeDiff({ commit: "HEAD", from: "HEAD~1" }), /cannot be combined/);
+  });
+});
+
+describe("diff analysis through the server", () => {
+  let harness: Harness;
+
+  before(async () => {
+    const repoDir = createGitRepo([
+      { "lib.js": "function loop() { return 1; }\n" },
+      { "lib.js": "function loop() { while (true) {} }\n" },
+    ]);
+    harness = await startHarness({ repoDir });
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  test("includes the diff in the request to o3", async () => {
+    harness.api.enqueue([message("The while loop never ends.")]);
+
+    const text = await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "Why does it hang?",
+      from: "HEAD~1",
+      to: "HEAD",
+    });
+
+    assert.match(text, /never ends/);
+    const diffMessage = harness.api.requests
+      .at(-1)
+      .input.find((item: any) => item.role === "system");
+    assert.match(diffMessage.content[0].text, /\+function loop\(\) \{ while \(true\) \{\} \}/);
+  });
+
+  test("returns invalid refs as errors without calling o3", async () => {
+    const requestCount = harness.api.requests.length;
+    const text = await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "Diff please",
+      from: "-p",
+    });
+
+    assert.match(text, /Invalid git reference format: -p/);
+    assert.equal(harness.api.requests.length, requestCount);
+  });
+});
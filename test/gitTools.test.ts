@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { rmSync } from "fs";
+import { after, before, describe, test } from "node:test";
+import { functionCall, message } from "./helpers/fakeResponsesApi.js";
+import { createGitRepo, startHarness, type Harness } from "./helpers/harness.js";
+
+describe("git tools", () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness({
+      repoDir: createGitRepo([
+        { "src/app.ts": "export const timeout = 1000;\n" },
+        { "src/app.ts": "export const timeout = 5000;\nexport const retries = 3;\n" },
+        { "README.md": "# app\n", ".env": "SECRET=hunter2\n" },
+      ]),
+      env: { TOOL_BACKEND: "native" },
+    });
+  });
+
+  after(async () => {
+    await harness.close();
+    rmSync(harness.repoDir, { recursive: true, force: true });
+  });
+
+  // Ask o3 a question while it calls one git tool, and return the tool output
+  async function callGitTool(name: string, args: Record<string, unknown>): Promise<string> {
+    harness.api.enqueue([functionCall(name, args, "call_git")], [message("Done.")]);
+    await harness.callTool("ask-gpt-o3-extremely-smart", { input: "When did this change?" });
+    return harness.api.requests.at(-1).input[0].output;
+  }
+
+  test("offers the git tools to o3", async () => {
+    harness.api.enqueue([message("Done.")]);
+    await harness.callTool("ask-gpt-o3-extremely-smart", { input: "Hello" });
+
+    const names = harness.api.requests.at(-1).tools.map((tool: any) => tool.name);
+    for (const name of ["git_log", "git_show", "git_blame", "git_diff", "git_grep"]) {
+      assert.ok(names.includes(name), `${name} is offered`);
+    }
+  });
+
+  test("git_log filters by path and limit", async () => {
+    const output = await callGitTool("git_log", { path: "src/app.ts", limit: 1 });
+    assert.match(output, /commit 2/);
+    assert.doesNotMatch(output, /commit 1|commit 3/);
+  });
+
+  test("git_show shows a commit's changes", async () => {
+    const output = await callGitTool("git_show", { commit: "HEAD~1" });
+    assert.match(output, /commit 2/);
+    assert.match(output, /\+export const timeout = 5000;/);
+  });
+
+  test("git_blame shows a line range", async () => {
+    const output = await callGitTool("git_blame", { path: "src/app.ts", start_line: 2, end_line: 2 });
+    assert.match(output, /retries = 3/);
+    assert.doesNotMatch(output, /timeout/);
+  });
+
+  test("git_diff compares two refs", async () => {
+    const output = await callGitTool("git_diff", { from: "HEAD~2", to: "HEAD~1" });
+    assert.match(output, /-export const timeout = 1000;/);
+    assert.match(output, /\+export const retries = 3;/);
+  });
+
+  test("git_grep searches a past ref", async () => {
+    const output = await callGitTool("git_grep", { pattern: "timeout = [0-9]+", ref: "HEAD~2" });
+    assert.match(output, /src\/app\.ts:1:export const timeout = 1000;/);
+    assert.equal(await callGitTool("git_grep", { pattern: "no-such-text" }), "No matches found");
+  });
+
+  test("keeps denied files out of every git tool's output", async () => {
+    const outputs = {
+      grep: await callGitTool("git_grep", { pattern: "SECRET|app" }),
+      grepRef: await callGitTool("git_grep", { pattern: "SECRET", ref: "HEAD" }),
+      show: await callGitTool("git_show", { commit: "HEAD" }),
+      diff: await callGitTool("git_diff", { from: "HEAD~1", to: "HEAD" }),
+      log: await callGitTool("git_log", { stat: true }),
+      blame: await callGitTool("git_blame", { path: ".env", start_line: 1, end_line: 1 }),
+      showPath: await callGitTool("git_show", { commit: "HEAD", path: ".env" }),
+    };
+    for (const [name, output] of Object.entries(outputs)) {
+      assert.doesNotMatch(output, /hunter2/, name);
+    }
+    assert.match(outputs.grep, /^README\.md:1:# app/);
+    assert.match(outputs.show, /\+# app/);
+    assert.doesNotMatch(outputs.show, /diff --git a\/\.env/);
+    assert.match(outputs.diff, /1 result\(s\) in denied paths were removed/);
+    assert.match(outputs.blame, /Sandbox policy violation/);
+    assert.match(outputs.showPath, /Sandbox policy violation/);
+  });
+
+  test("rejects refs that could be read as options", async () => {
+    const output = await callGitTool("git_log", { ref: "--output=/tmp/pwned" });
+    assert.match(output, /^Error: Invalid git reference format/);
+  });
+});
@@ -0,0 +1,72 @@
+// Stand-in for `claude mcp serve`: a stdio MCP server exposing the same tool
+// names, implemented directly on the file system. Spawned by the server under
+// test through CLAUDE_MCP_COMMAND.
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { execFile } from "child_process";
+import { readdir, readFile, writeFile } from "fs/promises";
+import { promisify } from "util";
+import { z } from "zod";
+
+const execFileAsync = promisify(execFile);
+
+const text = (value: string, isError = false) => ({
+  content: [{ type: "text" as const, text: value }],
+  ...(isError && { isError: true }),
+});
+
+const server = new McpServer({ name: "fake-claude", version: "0.0.0" });
+
+server.tool("Read", { file_path: z.string() }, async ({ file_path }) => {
+  try {
+    if (file_path.endsWith(".png")) {
+      const data = (await readFile(file_path)).toString("base64");
+      return { content: [{ type: "image" as const, data, mimeType: "image/png" }] };
+    }
+    return text(await readFile(file_path, "utf-8"));
+  } catch (error) {
+    return text(`Error: ${(error as Error).message}`, true);
+  }
+});
+
+server.tool(
+  "Edit",
+  { file_path: z.string(), old_string: z.string(), new_string: z.string() },
+  async ({ file_path, old_string, new_string }) => {
+    const content = await readFile(file_path, "utf-8");
+    if (!content.includes(old_string)) {
+      return text("String to replace not found in file.", true);
+    }
+    await writeFile(file_path, content.replace(old_string, () => new_string));
+    return text(`The file ${file_path} has been updated.`);
+  }
+);
+
+server.tool("LS", { path: z.string() }, async ({ path }) => {
+  return text((await readdir(path)).sort().join("\n"));
+});
+
+server.tool("Write", { file_path: z.string(), content: z.string() }, async ({ file_path, content }) => {
+  await writeFile(file_path, content);
+  return text(`File created successfully at: ${file_path}`);
+});
+
+server.tool("Bash", { command: z.string() }, async ({ command }) => {
+  try {
+    const { stdout, stderr } = await execFileAsync("sh", ["-c", command]);
+    return text(`${stdout}${stderr}`);
+  } catch (error) {
+    return text(`Error: ${(error as Error).message}`, true);
+  }
+});
+
+server.tool("Grep", { pattern: z.string(), path: z.string().optional() }, async ({ pattern, path }) => {
+  try {
+    const { stdout } = await execFileAsync("git", ["grep", "-l", "-E", pattern], { cwd: path || "." });
+    return text(stdout.trim());
+  } catch {
+    return text("No files found");
+  }
+});
+
+await server.connect(new StdioServerTransport());
@@ -0,0 +1,35 @@
+// MCP server that lists its tools over several tools/list pages. With
+// FAKE_TOOLS_CLASH set, two of its tool names are identical in their first
+// 64 characters.
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+
+const tool = (name: string) => ({
+  name,
+  description: `The ${name} tool`,
+  inputSchema: { type: "object" as const, properties: {} },
+  annotations: { readOnlyHint: true },
+});
+
+const longName = "x".repeat(70);
+const pages = [
+  [tool("first")],
+  process.env.FAKE_TOOLS_CLASH ? [tool(`${longName}_a`), tool(`${longName}_b`)] : [tool("second")],
+];
+
+const server = new Server({ name: "fake-paged", version: "0.0.0" }, { capabilities: { tools: {} } });
+
+server.setRequestHandler(ListToolsRequestSchema, async (request) => {
+  const index = Number(request.params?.cursor ?? 0);
+  return {
+    tools: pages[index] ?? [],
+    ...(index + 1 < pages.length && { nextCursor: String(index + 1) }),
+  };
+});
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => ({
+  content: [{ type: "text", text: `${request.params.name} called` }],
+}));
+
+await server.connect(new StdioServerTransport());
@@ -0,0 +1,188 @@
+import { createServer, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+
+// A scripted step returns the `output` items of one Responses API call.
+// Steps are consumed in order, one per request.
+export type ScriptedStep = any[] | ((request: any) => any[]);
+
+export interface FakeResponsesApi {
+  baseURL: string;
+  // Bodies of every POST /v1/responses request, in order
+  requests: any[];
+  enqueue(...steps: ScriptedStep[]): void;
+  // Reject later requests that continue from this response, as the API does
+  // once a stored response has expired
+  expire(responseId: string): void;
+  // Reject later requests that continue from this response as too long for
+  // the context window
+  overflow(responseId: string): void;
+  // While true, background responses stay in_progress when polled
+  holdBackground: boolean;
+  // Ids of background responses cancelled through POST /responses/{id}/cancel
+  cancelled: string[];
+  // Answer requests that set this top-level parameter with a 400 naming
+  // param, as the API does for parameters a model doesn't support
+  reject(param: string, message: string): void;
+  close(): Promise<void>;
+}
+
+export function functionCall(name: string, args: Record<string, unknown>, callId: string) {
+  return {
+    type: "function_call",
+    id: `fc_${callId}`,
+    call_id: callId,
+    name,
+    arguments: JSON.stringify(args),
+    status: "completed",
+  };
+}
+
+export function message(text: string, annotations: any[] = []) {
+  return {
+    type: "message",
+    id: `msg_${Math.random().toString(36).slice(2, 10)}`,
+    role: "assistant",
+    status: "completed",
+    content: [{ type: "output_text", text, annotations }],
+  };
+}
+
+// Local stand-in for the OpenAI Responses API
+export async function startFakeResponsesApi(): Promise<FakeResponsesApi> {
+  const requests: any[] = [];
+  const queue: ScriptedStep[] = [];
+  const expired = new Set<string>();
+  const overflowed = new Set<string>();
+  const rejected = new Map<string, string>();
+  // Background responses by id, returned completed once polled
+  const background = new Map<string, any>();
+  let counter = 0;
+
+  const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify(body));
+  };
+
+  const server: Server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const backgroundMatch = /\/responses\/([^/]+?)(\/cancel)?$/.exec(req.url ?? "");
+      const stored = backgroundMatch && background.get(backgroundMatch[1]!);
+      if (backgroundMatch && stored) {
+        if (backgroundMatch[2] && req.method === "POST") {
+          api.cancelled.push(stored.id);
+          stored.status = "cancelled";
+        } else if (stored.status !== "cancelled") {
+          stored.status = api.holdBackground ? "in_progress" : "completed";
+        }
+        sendJson(res, 200, stored.status === "completed" ? stored : { ...stored, output: [] });
+        return;
+      }
+
+      if (req.method !== "POST" || !req.url?.endsWith("/responses")) {
+        res.writeHead(404, { "content-type": "application/json" });
+        res.end(JSON.stringify({ error: { message: `Unexpected ${req.method} ${req.url}` } }));
+        return;
+      }
+
+      const request = JSON.parse(body);
+      requests.push(request);
+
+      if (expired.has(request.previous_response_id)) {
+        res.writeHead(400, { "content-type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: {
+              message: `Previous response with id '${request.previous_response_id}' not found.`,
+              type: "invalid_request_error",
+              param: "previous_response_id",
+              code: "previous_response_not_found",
+            },
+          })
+        );
+        return;
+      }
+
+      if (overflowed.has(request.previous_response_id)) {
+        res.writeHead(400, { "content-type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: {
+              message: "Your input exceeds the context window of this model. Please adjust your input and try again.",
+              type: "invalid_request_error",
+              param: "input",
+              code: "context_length_exceeded",
+            },
+          })
+        );
+        return;
+      }
+
+      const rejectedParam = [...rejected.keys()].find(
+        (param) => request[param.split(/[.[]/)[0]!] !== undefined
+      );
+      if (rejectedParam) {
+        res.writeHead(400, { "content-type": "application/json" });
+        res.end(
+          JSON.stringify({
+            error: {
+              message: rejected.get(rejectedParam),
+              type: "invalid_request_error",
+              param: rejectedParam,
+              code: "unsupported_parameter",
+            },
+          })
+        );
+        return;
+      }
+
+      const step = queue.shift();
+      if (!step) {
+        res.writeHead(500, { "content-type": "application/json" });
+        res.end(JSON.stringify({ error: { message: "No scripted response left" } }));
+        return;
+      }
+
+      counter++;
+      const output = typeof step === "function" ? step(request) : step;
+      const response = {
+        id: `resp_${counter}`,
+        object: "response",
+        created_at: Math.floor(Date.now() / 1000),
+        model: request.model,
+        status: "completed",
+        output,
+        usage: {
+          input_tokens: 100,
+          input_tokens_details: { cached_tokens: 0 },
+          output_tokens: 50,
+          output_tokens_details: { reasoning_tokens: 20 },
+          total_tokens: 150,
+        },
+      };
+      if (request.background) {
+        background.set(response.id, { ...response, status: "queued" });
+        sendJson(res, 200, { ...response, status: "queued", output: [] });
+        return;
+      }
+      sendJson(res, 200, response);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const api: FakeResponsesApi = {
+    baseURL: `http://127.0.0.1:${port}/v1`,
+    requests,
+    enqueue: (...steps) => queue.push(...steps),
+    expire: (responseId) => expired.add(responseId),
+    overflow: (responseId) => overflowed.add(responseId),
+    reject: (param, message) => rejected.set(param, message),
+    holdBackground: false,
+    cancelled: [],
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+  return api;
+}
@@ -0,0 +1,130 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { execFileSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync, mkdirSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { startFakeResponsesApi, type FakeResponsesApi } from "./fakeResponsesApi.js";
+
+const repoRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..", "..");
+const tsxLoader = import.meta.resolve("tsx");
+const fakeClaudeServer = path.join(repoRoot, "test", "helpers", "fakeClaudeMcpServer.ts");
+
+// Command line that starts the fake Claude Code MCP server
+export const fakeClaudeServerCommand = [process.execPath, "--import", tsxLoader, fakeClaudeServer];
+
+export function makeTempDir(prefix: string): string {
+  return mkdtempSync(path.join(tmpdir(), `o3-search-mcp-${prefix}-`));
+}
+
+export function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, {
+    cwd,
+    encoding: "utf-8",
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: "Test",
+      GIT_AUTHOR_EMAIL: "test@example.com",
+      GIT_COMMITTER_NAME: "Test",
+      GIT_COMMITTER_EMAIL: "test@example.com",
+    },
+  });
+}
+
+// Create a temporary git repository. Each commit is a map of relative paths
+// to file contents, applied on top of the previous one.
+export function createGitRepo(commits: Array<Record<string, string>>): string {
+  const dir = makeTempDir("repo");
+  git(dir, "init", "-q", "-b", "main");
+  commits.forEach((files, index) => {
+    for (const [file, content] of Object.entries(files)) {
+      const target = path.join(dir, file);
+      mkdirSync(path.dirname(target), { recursive: true });
+      writeFileSync(target, content);
+    }
+    git(dir, "add", "-A");
+    git(dir, "commit", "-q", "-m", `commit ${index + 1}`);
+  });
+  return dir;
+}
+
+export interface Harness {
+  api: FakeResponsesApi;
+  client: Client;
+  repoDir: string;
+  stateDir: string;
+  callTool(name: string, args?: Record<string, unknown>): Promise<string>;
+  restart(): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface HarnessOptions {
+  repoDir?: string;
+  env?: Record<string, string>;
+}
+
+// Run the real server over stdio with the OpenAI API replaced by a local
+// scripted server and `claude mcp serve` replaced by a fake MCP server
+export async function startHarness(options: HarnessOptions = {}): Promise<Harness> {
+  const api = await startFakeResponsesApi();
+  const repoDir = options.repoDir ?? createGitRepo([{ "README.md": "# test\n" }]);
+  const stateDir = makeTempDir("state");
+
+  const env: Record<string, string> = {
+    PATH: process.env.PATH ?? "",
+    HOME: stateDir,
+    XDG_STATE_HOME: stateDir,
+    OPENAI_API_KEY: "test-key",
+    OPENAI_BASE_URL: api.baseURL,
+    OPENAI_MODEL: "o3",
+    CLAUDE_MCP_COMMAND: JSON.stringify(fakeClaudeServerCommand),
+    CONFIRMATION_MODE: "auto",
+    CONTEXT_SUMMARY_MODE: "off",
+    ...options.env,
+  };
+
+  const connect = async () => {
+    const transport = new StdioClientTransport({
+      command: process.execPath,
+      args: ["--import", tsxLoader, path.join(repoRoot, "index.ts")],
+      cwd: repoDir,
+      env,
+      stderr: "ignore",
+    });
+    const client = new Client({ name: "o3-search-mcp-test", version: "0.0.0" });
+    await client.connect(transport);
+    return client;
+  };
+
+  const harness: Harness = {
+    api,
+    client: await connect(),
+    repoDir,
+    stateDir,
+    async callTool(name, args = {}) {
+      const result = await harness.client.callTool(
+        { name, arguments: args },
+        undefined,
+        { timeout: 60000 }
+      );
+      return (result.content as Array<{ type: string; text?: string }>)
+        .map((item) => item.text ?? "")
+        .join("");
+    },
+    async restart() {
+      await harness.client.close();
+      harness.client = await connect();
+    },
+    async close() {
+      await harness.client.close();
+      await api.close();
+      rmSync(stateDir, { recursive: true, force: true });
+      if (!options.repoDir) {
+        rmSync(repoDir, { recursive: true, force: true });
+      }
+    },
+  };
+
+  return harness;
+}
@@ -0,0 +1,187 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "child_process";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import path from "path";
+import { setTimeout as sleep } from "timers/promises";
+import { after, before, describe, test } from "node:test";
+import { JobManager, type Job } from "../jobs.js";
+import { functionCall, message } from "./helpers/fakeResponsesApi.js";
+import { makeTempDir, startHarness, type Harness } from "./helpers/harness.js";
+
+describe("background jobs", () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness({
+      env: { MODEL_SUPPORTS_BACKGROUND: "true", BACKGROUND_POLL_INTERVAL_MS: "20" },
+    });
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  async function startJob(input: string, args: Record<string, unknown> = {}): Promise<string> {
+    const result = await harness.client.callTool({
+      name: "ask-gpt-o3-extremely-smart",
+      arguments: { input, async: true, ...args },
+    });
+    return (result.structuredContent as any).jobId;
+  }
+
+  // Poll job-status until the job has left the running state
+  async function waitForJob(jobId: string): Promise<string> {
+    for (let attempt = 0; attempt < 200; attempt++) {
+      const result = await harness.client.callTool({ name: "job-status", arguments: { job_id: jobId } });
+      const { status } = result.structuredContent as any;
+      if (status !== "running") return status;
+      await sleep(25);
+    }
+    throw new Error(`Job ${jobId} did not finish`);
+  }
+
+  test("returns a job id at once and the answer later", async () => {
+    harness.api.enqueue(
+      [functionCall("claude_view", { file_path: path.join(harness.repoDir, "README.md") }, "call_1")],
+      [message("The readme is a test.")]
+    );
+
+    const jobId = await startJob("What is in the readme?");
+    assert.match(jobId, /^job_/);
+    assert.equal(await waitForJob(jobId), "completed");
+
+    const answer = await harness.callTool("job-result", { job_id: jobId });
+    assert.match(answer, /^The readme is a test\./);
+    assert.match(answer, /\*\*Tools Used:\*\*/);
+
+    // Both stages ran in background mode
+    const stages = harness.api.requests.slice(-2);
+    assert.deepEqual(
+      stages.map((request) => [request.background, request.store]),
+      [
+        [true, true],
+        [true, true],
+      ]
+    );
+  });
+
+  test("keeps results across a reconnect", async () => {
+    harness.api.enqueue([message("Still here.")]);
+    const jobId = await startJob("Remember this");
+    assert.equal(await waitForJob(jobId), "completed");
+
+    await harness.restart();
+
+    assert.match(await harness.callTool("job-result", { job_id: jobId }), /^Still here\./);
+    assert.match(await harness.callTool("job-status", {}), new RegExp(`Job ${jobId}: completed`));
+  });
+
+  test("cancels the job and its background response", async () => {
+    harness.api.holdBackground = true;
+    try {
+      harness.api.enqueue([message("Never seen.")]);
+      const jobId = await startJob("Think for a long time");
+
+      // Wait until the background response is being polled
+      for (let attempt = 0; attempt < 200; attempt++) {
+        const status = await harness.callTool("job-status", { job_id: jobId });
+        if (/Background response: resp_/.test(status)) break;
+        await sleep(25);
+      }
+      assert.match(
+        await harness.callTool("job-result", { job_id: jobId }),
+        /is still running \(Stage 1\/\d+: waiting for o3\)\. Check again later\./
+      );
+
+      assert.match(await harness.callTool("job-cancel", { job_id: jobId }), /has been cancelled/);
+      assert.equal(await waitForJob(jobId), "cancelled");
+      for (let attempt = 0; attempt < 200 && harness.api.cancelled.length === 0; attempt++) {
+        await sleep(25);
+      }
+      assert.equal(harness.api.cancelled.length, 1);
+      assert.match(await harness.callTool("job-cancel", { job_id: jobId }), /already been cancelled/);
+    } finally {
+      harness.api.holdBackground = false;
+    }
+  });
+
+  test("marks jobs interrupted by a server restart as failed", async () => {
+    harness.api.holdBackground = true;
+    try {
+      harness.api.enqueue([message("Never seen.")]);
+      const jobId = await startJob("Think for a long time");
+      await harness.restart();
+
+      assert.match(
+        await harness.callTool("job-result", { job_id: jobId }),
+        /: failed\n[\s\S]*Error: The server stopped before the job finished/
+      );
+    } finally {
+      harness.api.holdBackground = false;
+    }
+  });
+
+  test("marks jobs that return an error as failed", async () => {
+    const jobId = await startJob("What changed?", { from: "no-such-ref" });
+    assert.equal(await waitForJob(jobId), "failed");
+
+    assert.match(await harness.callTool("job-status", { job_id: jobId }), /\nError: .*no-such-ref/);
+    const result = await harness.client.callTool({ name: "job-result", arguments: { job_id: jobId } });
+    assert.equal(result.isError, true);
+    assert.match((result.content as Array<{ text: string }>)[0]!.text, /^Error: .*no-such-ref/);
+  });
+
+  test("reports unknown jobs", async () => {
+    const result = await harness.client.callTool({ name: "job-result", arguments: { job_id: "job_nope" } });
+    assert.equal(result.isError, true);
+  });
+});
+
+describe("job recovery", () => {
+  let stateDir: string;
+  let jobsDir: string;
+  const previousStateHome = process.env.XDG_STATE_HOME;
+
+  before(() => {
+    stateDir = makeTempDir("jobs-state");
+    jobsDir = path.join(stateDir, "o3-search-mcp", "jobs");
+    mkdirSync(jobsDir, { recursive: true });
+    process.env.XDG_STATE_HOME = stateDir;
+  });
+
+  after(() => {
+    if (previousStateHome === undefined) delete process.env.XDG_STATE_HOME;
+    else process.env.XDG_STATE_HOME = previousStateHome;
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  const writeJob = (job: Partial<Job> & { id: string }) => {
+    const now = new Date().toISOString();
+    const full: Job = { status: "running", conversationId: "c", input: "q", createdAt: now, updatedAt: now, ...job };
+    writeFileSync(path.join(jobsDir, `${job.id}.json`), JSON.stringify(full));
+  };
+
+  test("fails jobs of exited servers, keeps jobs of live ones and drops expired jobs", async () => {
+    // A process that has already exited
+    const exitedPid = spawnSync(process.execPath, ["-e", ""]).pid;
+    writeJob({ id: "job_stale", ownerPid: exitedPid });
+    writeJob({ id: "job_live", ownerPid: process.ppid });
+    const longAgo = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString();
+    writeJob({ id: "job_expired", status: "completed", createdAt: longAgo, finishedAt: longAgo });
+
+    const manager = new JobManager();
+    await manager.load();
+
+    const stale = await manager.get("job_stale");
+    assert.equal(stale?.status, "failed");
+    assert.equal(stale?.error, "The server stopped before the job finished");
+    assert.equal((await manager.get("job_live"))?.status, "running");
+    await assert.rejects(manager.cancel("job_live"), /running in another server process/);
+    assert.equal(await manager.get("job_expired"), undefined);
+    assert.equal(existsSync(path.join(jobsDir, "job_expired.json")), false);
+
+    // The other server finishing the job is picked up
+    writeJob({ id: "job_live", status: "completed", ownerPid: process.ppid, finishedAt: new Date().toISOString() });
+    assert.equal((await manager.get("job_live"))?.status, "completed");
+  });
+});
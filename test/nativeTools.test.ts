@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { readFileSync, rmSync, writeFileSync } from "fs";
+import path from "path";
+import { after, before, describe, test } from "node:test";
+import {
+  nativeEditFile,
+  nativeGrepFiles,
+  nativeListDirectory,
+  nativeRunBash,
+  nativeViewFile,
+  nativeWriteFile,
+} from "../nativeTools.js";
+import type { ClaudeToolResult } from "../claudeTools.js";
+import { functionCall, message } from "./helpers/fakeResponsesApi.js";
+import { createGitRepo, startHarness, type Harness } from "./helpers/harness.js";
+
+const text = (result: ClaudeToolResult) =>
+  result.content.map((item) => (item.type === "text" ? item.text : `[${item.type}]`)).join("\n");
+
+describe("native tools", () => {
+  let repoDir: string;
+
+  before(() => {
+    repoDir = createGitRepo([
+      { "src/index.ts": "import { helper } from './helper';\nhelper();\n", "src/helper.ts": "export function helper() {}\n" },
+    ]);
+  });
+
+  after(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  test("views files with line numbers", async () => {
+    const result = await nativeViewFile(path.join(repoDir, "src/index.ts"));
+    assert.match(text(result), /^ {5}1\timport \{ helper \}/);
+    assert.match(text(result), / {5}2\thelper\(\);/);
+  });
+
+  test("reads only the start of large files", async () => {
+    const file = path.join(repoDir, "big.log");
+    writeFileSync(file, "x".repeat(5_000_000));
+    const result = text(await nativeViewFile(file));
+    assert.match(result, /^ {5}1\tx{2000}\.\.\.\n/);
+    assert.match(result, /only the first 4000000 of 5000000 bytes were read\)$/);
+    rmSync(file);
+  });
+
+  test("returns images as image content", async () => {
+    const file = path.join(repoDir, "logo.png");
+    writeFileSync(file, Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    assert.deepEqual((await nativeViewFile(file)).content, [
+      { type: "image", data: "iVBORw==", mimeType: "image/png" },
+    ]);
+    rmSync(file);
+  });
+
+  test("edits a unique match only", async () => {
+    const file = path.join(repoDir, "src/helper.ts");
+    const ambiguous = await nativeEditFile(file, "e", "E");
+    assert.equal(ambiguous.isError, true);
+
+    const result = await nativeEditFile(file, "helper()", "helper(): void");
+    assert.equal(result.isError, undefined);
+    assert.equal(readFileSync(file, "utf-8"), "export function helper(): void {}\n");
+  });
+
+  test("writes files, creating directories", async () => {
+    const file = path.join(repoDir, "docs/new/README.md");
+    await nativeWriteFile(file, "# New\n");
+    assert.equal(readFileSync(file, "utf-8"), "# New\n");
+  });
+
+  test("lists directories without .git", async () => {
+    const result = text(await nativeListDirectory(repoDir));
+    assert.match(result, /- src\/\n {4}- helper\.ts\n {4}- index\.ts/);
+    assert.doesNotMatch(result, /\.git/);
+  });
+
+  test("greps with regular expressions", async () => {
+    const result = text(await nativeGrepFiles("function\\s+helper", repoDir));
+    assert.match(result, /^src\/helper\.ts:1: export function helper/);
+  });
+
+  test("runs commands and reports failures", async () => {
+    assert.equal(text(await nativeRunBash("echo hello")), "hello\n");
+    const failed = await nativeRunBash("exit 3");
+    assert.equal(failed.isError, true);
+    assert.match(text(failed), /exit code 3/);
+  });
+
+  test("runs commands with bash", async () => {
+    assert.equal(text(await nativeRunBash("[[ -n $BASH_VERSION ]] && echo bash")), "bash\n");
+  });
+});
+
+describe("tool backend selection", () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness({
+      env: {
+        TOOL_BACKEND: "auto",
+        CLAUDE_MCP_COMMAND: JSON.stringify(["/nonexistent/claude"]),
+      },
+    });
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  test("falls back to native tools when Claude Code is unavailable", async () => {
+    harness.api.enqueue(
+      [functionCall("claude_view", { file_path: path.join(harness.repoDir, "README.md") }, "call_view")],
+      [message("It is a test readme.")]
+    );
+
+    await harness.callTool("ask-gpt-o3-extremely-smart", { input: "What is in the readme?" });
+
+    assert.match(harness.api.requests.at(-1).input[0].output, /^ {5}1\t# test/);
+  });
+});
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import OpenAI from "openai";
+import { createResponse, type ModelCapabilities } from "../openaiProvider.js";
+import { message, startFakeResponsesApi, type FakeResponsesApi } from "./helpers/fakeResponsesApi.js";
+
+describe("unsupported parameters", () => {
+  let api: FakeResponsesApi;
+  let openai: OpenAI;
+  let capabilities: ModelCapabilities;
+
+  beforeEach(async () => {
+    api = await startFakeResponsesApi();
+    openai = new OpenAI({ apiKey: "test-key", baseURL: api.baseURL, maxRetries: 0 });
+    capabilities = { reasoningEffort: true, webSearch: true, background: true };
+  });
+
+  afterEach(async () => {
+    await api.close();
+  });
+
+  test("retries without reasoning effort and remembers the rejection", async () => {
+    api.reject("reasoning.effort", "Unsupported parameter: 'reasoning.effort' is not supported with this model.");
+    api.enqueue([message("First.")], [message("Second.")]);
+    const params = { model: "custom", input: "Hi", reasoning: { effort: "low" as const } };
+
+    const response = await createResponse(openai, params, capabilities);
+
+    assert.equal(response.output_text, "First.");
+    assert.equal(api.requests.length, 2);
+    assert.deepEqual(api.requests[0].reasoning, { effort: "low" });
+    assert.equal(api.requests[1].reasoning, undefined);
+    assert.equal(capabilities.reasoningEffort, false);
+
+    await createResponse(openai, params, capabilities);
+    assert.equal(api.requests.length, 3);
+    assert.equal(api.requests[2].reasoning, undefined);
+  });
+
+  test("drops tool_choice and parallel_tool_calls along with the last tool", async () => {
+    api.reject("tools", "Tool 'web_search_preview' is not supported with this model.");
+    api.enqueue([message("Answer.")]);
+
+    await createResponse(
+      openai,
+      {
+        model: "custom",
+        input: "Hi",
+        tools: [{ type: "web_search_preview" }],
+        tool_choice: "auto",
+        parallel_tool_calls: true,
+      },
+      capabilities
+    );
+
+    assert.equal(capabilities.webSearch, false);
+    assert.equal(api.requests.length, 2);
+    const retry = api.requests[1];
+    assert.equal(retry.tools, undefined);
+    assert.equal(retry.tool_choice, undefined);
+    assert.equal(retry.parallel_tool_calls, undefined);
+  });
+
+  test("doesn't give up background mode over errors that only mention it", async () => {
+    api.reject("input", "Input is too large to run in background mode.");
+
+    await assert.rejects(
+      createResponse(openai, { model: "custom", input: "Hi" }, capabilities, { background: true }),
+      /Input is too large/
+    );
+    assert.equal(api.requests.length, 1);
+    assert.equal(capabilities.background, true);
+  });
+});
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import path from "path";
+import { after, before, describe, test } from "node:test";
+import {
+  BUILTIN_RESPONSE_FORMATS,
+  resolveResponseFormat,
+  validateAgainstSchema,
+} from "../responseFormats.js";
+import { functionCall, message } from "./helpers/fakeResponsesApi.js";
+import { startHarness, type Harness } from "./helpers/harness.js";
+
+const review = {
+  summary: "One bug.",
+  verdict: "request_changes",
+  findings: [
+    {
+      file: "src/app.ts",
+      line: 1,
+      severity: "major",
+      category: "bug",
+      issue: "Off by one.",
+      suggestion: "Use 42.",
+    },
+  ],
+};
+
+describe("response formats", () => {
+  test("resolves built-in names, bare schemas and wrapped schemas", () => {
+    assert.equal(resolveResponseFormat("code_review").name, "code_review");
+
+    const schema = { type: "object", properties: {}, required: [], additionalProperties: false };
+    assert.deepEqual(resolveResponseFormat(schema), {
+      name: "custom_response",
+      description: undefined,
+      schema,
+      strict: true,
+    });
+    assert.equal(resolveResponseFormat({ name: "answer", schema, strict: false }).strict, false);
+    assert.throws(() => resolveResponseFormat({ type: "array" }), /"type": "object"/);
+    assert.throws(() => resolveResponseFormat("haiku"), /Unknown response_format "haiku"/);
+  });
+
+  test("reports schema violations with their location", () => {
+    const { schema } = BUILTIN_RESPONSE_FORMATS.code_review;
+    assert.deepEqual(validateAgainstSchema(schema, review), []);
+    assert.deepEqual(
+      validateAgainstSchema(schema, {
+        ...review,
+        verdict: "lgtm",
+        findings: [{ ...review.findings[0], line: "1", extra: true }],
+      }),
+      [
+        '$.verdict: must be one of "approve", "request_changes", "comment"',
+        "$.findings[0].line: expected integer or null, got string",
+        '$.findings[0]: unexpected property "extra"',
+      ]
+    );
+  });
+});
+
+describe("structured output mode", () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  test("returns validated JSON after running tools", async () => {
+    harness.api.enqueue(
+      [functionCall("claude_view", { file_path: path.join(harness.repoDir, "README.md") }, "call_1")],
+      [message(JSON.stringify(review))]
+    );
+
+    const result = await harness.client.callTool({
+      name: "ask-gpt-o3-extremely-smart",
+      arguments: { input: "Review this", response_format: "code_review" },
+    });
+
+    const content = result.content as Array<{ text: string }>;
+    assert.deepEqual(JSON.parse(content[0]!.text), review);
+    assert.deepEqual(result.structuredContent, review);
+    assert.equal(result.isError, undefined);
+    assert.match(content[1]!.text, /\*\*Tools Used:\*\*/);
+
+    const [first, second] = harness.api.requests.slice(-2);
+    assert.equal(first.text.format.type, "json_schema");
+    assert.equal(first.text.format.name, "code_review");
+    assert.equal(second.text.format.name, "code_review");
+  });
+
+  test("surfaces schema errors", async () => {
+    harness.api.enqueue([message(JSON.stringify({ summary: "?" }))]);
+
+    const result = await harness.client.callTool({
+      name: "ask-gpt-o3-extremely-smart",
+      arguments: { input: "Diagnose", response_format: "bug_diagnosis" },
+    });
+
+    assert.equal(result.isError, true);
+    assert.match(
+      (result.content as Array<{ text: string }>)[0]!.text,
+      /does not match the "bug_diagnosis" schema:\n- \$: missing required property "root_cause"/
+    );
+  });
+});
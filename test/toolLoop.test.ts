@@ -0,0 +1,220 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import path from "path";
+import { setTimeout as sleep } from "timers/promises";
+import { after, before, describe, test } from "node:test";
+import { ProgressNotificationSchema, type ProgressNotification } from "@modelcontextprotocol/sdk/types.js";
+import { functionCall, message } from "./helpers/fakeResponsesApi.js";
+import { createGitRepo, startHarness, type Harness } from "./helpers/harness.js";
+
+describe("tool loop", () => {
+  let harness: Harness;
+
+  before(async () => {
+    const repoDir = createGitRepo([{ "src/app.ts": "export const answer = 42;\n" }]);
+    harness = await startHarness({ repoDir });
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  test("runs function calls and returns the final message", async () => {
+    const filePath = path.join(harness.repoDir, "src/app.ts");
+    harness.api.enqueue(
+      [functionCall("claude_view", { file_path: filePath }, "call_1")],
+      [message("The answer is 42.")]
+    );
+
+    const text = await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "What is the answer?",
+      conversation_id: "loop-1",
+    });
+
+    assert.match(text, /The answer is 42\./);
+    assert.match(text, /Conversation ID: loop-1/);
+
+    const [first, second] = harness.api.requests.slice(-2);
+    assert.equal(first.model, "o3");
+    assert.equal(first.previous_response_id, undefined);
+    assert.equal(second.previous_response_id, "resp_1");
+    assert.deepEqual(second.input, [
+      {
+        type: "function_call_output",
+        call_id: "call_1",
+        output: "export const answer = 42;\n",
+      },
+    ]);
+  });
+
+  test("sends progress notifications only when asked for them", async () => {
+    const notifications: ProgressNotification["params"][] = [];
+    harness.client.setNotificationHandler(ProgressNotificationSchema, (notification) => {
+      notifications.push(notification.params);
+    });
+    const filePath = path.join(harness.repoDir, "src/app.ts");
+    const script = () =>
+      harness.api.enqueue(
+        [
+          { type: "web_search_call", id: "ws_1", status: "completed", action: { type: "search", query: "answer" } },
+          functionCall("claude_view", { file_path: filePath }, "call_progress"),
+        ],
+        [message("Still 42.")]
+      );
+
+    script();
+    await harness.client.callTool({
+      name: "ask-gpt-o3-extremely-smart",
+      arguments: { input: "What is the answer now?" },
+      _meta: { progressToken: "progress-1" },
+    });
+
+    assert.ok(notifications.every((params) => params.progressToken === "progress-1"));
+    assert.deepEqual(
+      notifications.map((params) => params.progress),
+      notifications.map((_, index) => index + 1)
+    );
+    const messages = notifications.map((params) => params.message);
+    assert.ok(messages.includes('Stage 1: Web search: "answer"'), messages.join("\n"));
+    assert.ok(
+      messages.some((text) => text?.startsWith("Stage 1: calling claude_view(")),
+      messages.join("\n")
+    );
+    assert.equal(messages.at(-1), "Completed after 2 stage(s)");
+
+    notifications.length = 0;
+    script();
+    await harness.callTool("ask-gpt-o3-extremely-smart", { input: "And without progress?" });
+    assert.deepEqual(notifications, []);
+  });
+
+  test("reports tool errors back to o3 and keeps going", async () => {
+    harness.api.enqueue(
+      [functionCall("claude_view", { file_path: path.join(harness.repoDir, ".env") }, "call_denied")],
+      [message("Could not read it.")]
+    );
+
+    const text = await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "Show me the secrets",
+      conversation_id: "loop-2",
+    });
+
+    assert.match(text, /Could not read it\./);
+    const output = harness.api.requests.at(-1).input[0];
+    assert.equal(output.call_id, "call_denied");
+    assert.match(output.output, /Sandbox policy violation/);
+  });
+
+  test("applies per-call overrides", async () => {
+    harness.api.enqueue(
+      [functionCall("claude_ls", {}, "call_hidden")],
+      [message("Done.")]
+    );
+
+    await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "Quick question",
+      conversation_id: "loop-overrides",
+      reasoning_effort: "low",
+      web_search: false,
+      tools: ["claude_view", "claude_grep"],
+    });
+
+    const [first, second] = harness.api.requests.slice(-2);
+    assert.deepEqual(first.reasoning, { effort: "low" });
+    assert.deepEqual(
+      first.tools.map((tool: any) => tool.name ?? tool.type),
+      ["claude_view", "claude_grep"]
+    );
+    assert.match(second.input[0].output, /claude_ls is not available in this request/);
+  });
+
+  test("rejects invalid overrides", async () => {
+    const text = await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "Too deep",
+      max_depth: 0,
+    });
+    assert.match(text, /max_depth/);
+  });
+
+  test("reports running out of stages without an answer", async () => {
+    const filePath = path.join(harness.repoDir, "src/app.ts");
+    for (const extra of [{}, { response_format: "code_review" }]) {
+      harness.api.enqueue([functionCall("claude_view", { file_path: filePath }, "call_depth")]);
+      const result = await harness.client.callTool({
+        name: "ask-gpt-o3-extremely-smart",
+        arguments: { input: "Keep looking", conversation_id: "loop-depth", max_depth: 1, ...extra },
+      });
+
+      assert.equal(result.isError, true);
+      assert.match(
+        (result.content as Array<{ text: string }>)[0]!.text,
+        /^Stopped after 1 stage\(s\) without a final answer: o3 was still calling tools when max_depth \(1\) was reached\./
+      );
+    }
+
+    const file = path.join(harness.stateDir, "o3-search-mcp", "conversations", "loop-depth.json");
+    const { entries } = JSON.parse(readFileSync(file, "utf-8"));
+    assert.match(entries[0].response, /^Stopped after 1 stage\(s\) without a final answer/);
+    assert.equal(entries[0].responseId, undefined);
+    assert.equal(entries[0].audit.toolCalls[0].name, "claude_view");
+  });
+
+  test("dry run proposes edits without touching disk", async () => {
+    const filePath = path.join(harness.repoDir, "src/app.ts");
+    harness.api.enqueue(
+      [
+        functionCall(
+          "claude_edit",
+          { file_path: filePath, old_string: "42", new_string: "43" },
+          "call_edit"
+        ),
+      ],
+      [functionCall("claude_view", { file_path: filePath }, "call_view")],
+      [message("Changed the answer.")]
+    );
+
+    const text = await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "Bump the answer",
+      conversation_id: "loop-3",
+      dry_run: true,
+    });
+
+    assert.equal(readFileSync(filePath, "utf-8"), "export const answer = 42;\n");
+    assert.match(text, /-export const answer = 42;\n\+export const answer = 43;/);
+    assert.match(harness.api.requests.at(-1).input[0].output, /answer = 43/);
+  });
+
+  test("stops and records the turn when the request is cancelled", async () => {
+    harness.api.enqueue([functionCall("claude_bash", { command: "sleep 5" }, "call_slow")]);
+    const requestCount = harness.api.requests.length + 1;
+
+    const controller = new AbortController();
+    const pending = harness.client.callTool(
+      {
+        name: "ask-gpt-o3-extremely-smart",
+        arguments: { input: "Take your time", conversation_id: "loop-cancel" },
+      },
+      undefined,
+      { signal: controller.signal }
+    );
+    while (harness.api.requests.length < requestCount) await sleep(25);
+    controller.abort();
+    await assert.rejects(pending);
+
+    const file = path.join(harness.stateDir, "o3-search-mcp", "conversations", "loop-cancel.json");
+    let entry;
+    for (let attempt = 0; attempt < 200 && !entry; attempt++) {
+      await sleep(25);
+      try {
+        entry = JSON.parse(readFileSync(file, "utf-8")).entries[0];
+      } catch {
+        // Not saved yet
+      }
+    }
+    assert.equal(entry.cancelled, true);
+    assert.match(entry.response, /^Cancelled after 1 stage\(s\), before o3 answered\./);
+    assert.equal(entry.audit.toolCalls[0].isError, true);
+    // The tool output was never sent back for another stage
+    assert.equal(harness.api.requests.length, requestCount);
+  });
+});
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import path from "path";
+import { fileURLToPath } from "url";
+import { after, before, describe, test } from "node:test";
+import { z } from "zod";
+import { defineTool, zodToJsonSchema } from "../toolRegistry.js";
+import { functionCall, message } from "./helpers/fakeResponsesApi.js";
+import { fakeClaudeServerCommand, startHarness, type Harness } from "./helpers/harness.js";
+
+describe("tool registry", () => {
+  test("derives strict JSON schemas from zod", () => {
+    const schema = z.object({
+      pattern: z.string().describe("Pattern"),
+      limit: z.number().int().optional(),
+      mode: z.enum(["files", "lines"]).optional(),
+      paths: z.array(z.string()),
+    });
+
+    assert.deepEqual(zodToJsonSchema(schema), {
+      type: "object",
+      properties: {
+        pattern: { type: "string", description: "Pattern" },
+        limit: { type: ["integer", "null"] },
+        mode: { type: ["string", "null"], enum: ["files", "lines", null] },
+        paths: { type: "array", items: { type: "string" } },
+      },
+      required: ["pattern", "limit", "mode", "paths"],
+      additionalProperties: false,
+    });
+  });
+
+  test("validates arguments, treating null as omitted", () => {
+    const tool = defineTool({
+      name: "search",
+      description: "Search",
+      schema: z.object({ pattern: z.string(), limit: z.number().optional() }),
+      execute: async () => ({ content: [] }),
+    });
+
+    assert.deepEqual(tool.parseArguments({ pattern: "x", limit: null }), { pattern: "x" });
+    assert.throws(
+      () => tool.parseArguments({ limit: "3" }),
+      /Invalid arguments for search: pattern: Required; limit: Expected number, received string/
+    );
+  });
+});
+
+describe("external MCP tool sources", () => {
+  let harness: Harness;
+
+  before(async () => {
+    const [command, ...args] = fakeClaudeServerCommand;
+    harness = await startHarness({
+      env: { MCP_TOOL_SERVERS: JSON.stringify({ fs: { command, args } }) },
+    });
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  test("offers external tools to o3 and runs them", async () => {
+    harness.api.enqueue(
+      [functionCall("fs__Read", { file_path: path.join(harness.repoDir, "README.md") }, "call_ext")],
+      [message("Read it.")]
+    );
+
+    await harness.callTool("ask-gpt-o3-extremely-smart", { input: "Read the readme" });
+
+    const [first, second] = harness.api.requests.slice(-2);
+    const external = first.tools.find((tool: any) => tool.name === "fs__Read");
+    assert.equal(external.strict, false);
+    assert.deepEqual(external.parameters.required, ["file_path"]);
+    assert.match(second.input[0].output, /^# test/);
+  });
+
+  test("reports invalid arguments back to o3", async () => {
+    harness.api.enqueue(
+      [functionCall("claude_view", { path: "README.md" }, "call_invalid")],
+      [message("Oops.")]
+    );
+
+    await harness.callTool("ask-gpt-o3-extremely-smart", { input: "Read something" });
+
+    assert.match(
+      harness.api.requests.at(-1).input[0].output,
+      /Invalid arguments for claude_view: file_path: Required/
+    );
+  });
+
+  test("hides mutating external tools in dry runs", async () => {
+    harness.api.enqueue([message("Nothing to do.")]);
+
+    await harness.callTool("ask-gpt-o3-extremely-smart", { input: "Plan", dry_run: true });
+
+    const names = harness.api.requests.at(-1).tools.map((tool: any) => tool.name ?? tool.type);
+    assert.ok(names.includes("claude_edit"));
+    assert.ok(!names.some((name: string) => name.startsWith("fs__")));
+  });
+
+  test("rejects unknown tool names", async () => {
+    const text = await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "Hi",
+      tools: ["claude_view", "nope"],
+    });
+    assert.match(text, /Unknown tool\(s\): nope/);
+  });
+});
+
+describe("paginated MCP tool sources", () => {
+  let harness: Harness;
+
+  before(async () => {
+    const [node, ...loader] = fakeClaudeServerCommand;
+    const server = {
+      command: node,
+      args: [...loader.slice(0, 2), fileURLToPath(new URL("./helpers/fakePagedMcpServer.ts", import.meta.url))],
+    };
+    harness = await startHarness({
+      env: {
+        MCP_TOOL_SERVERS: JSON.stringify({
+          paged: server,
+          clash: { ...server, env: { FAKE_TOOLS_CLASH: "1" } },
+        }),
+      },
+    });
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  test("registers tools from every page and skips servers with clashing names", async () => {
+    harness.api.enqueue([message("Listed.")]);
+
+    await harness.callTool("ask-gpt-o3-extremely-smart", { input: "Which tools are there?" });
+
+    const names = harness.api.requests.at(-1).tools.map((tool: any) => tool.name ?? tool.type);
+    assert.ok(names.includes("paged__first"));
+    assert.ok(names.includes("paged__second"));
+    assert.ok(!names.some((name: string) => name.startsWith("clash__")));
+  });
+});
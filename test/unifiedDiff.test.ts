@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { readFileSync, rmSync, writeFileSync } from "fs";
+import path from "path";
+import { after, before, describe, test } from "node:test";
+import { createUnifiedDiff } from "../unifiedDiff.js";
+import { createGitRepo, git } from "./helpers/harness.js";
+
+describe("unified diff", () => {
+  let repoDir: string;
+
+  before(() => {
+    repoDir = createGitRepo([{ "README.md": "# test\n" }]);
+  });
+
+  after(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  // Write oldText, apply the patch with git and return the result
+  function apply(oldText: string, newText: string): string {
+    const file = path.join(repoDir, "file.txt");
+    writeFileSync(file, oldText);
+    const patch = path.join(repoDir, "change.patch");
+    writeFileSync(patch, createUnifiedDiff("file.txt", oldText, newText));
+    try {
+      git(repoDir, "apply", patch);
+      return readFileSync(file, "utf-8");
+    } finally {
+      rmSync(patch);
+    }
+  }
+
+  test("marks lines without a final newline", () => {
+    assert.equal(
+      createUnifiedDiff("file.txt", "a\nb", "a\nc"),
+      [
+        "diff --git a/file.txt b/file.txt",
+        "--- a/file.txt",
+        "+++ b/file.txt",
+        "@@ -1,2 +1,2 @@",
+        " a",
+        "-b",
+        "\\ No newline at end of file",
+        "+c",
+        "\\ No newline at end of file",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("produces patches that git applies", () => {
+    assert.equal(apply("a\nb", "a\nc"), "a\nc");
+    assert.equal(apply("x\ny\n", "x\ny"), "x\ny");
+    assert.equal(apply("x\ny", "x\ny\n"), "x\ny\n");
+    assert.equal(apply("1\n2\n3\n4\n5\n6\n7\n8\n9\n", "1\n2\n3\nfour\n5\n6\n7\n8\n9\n"), "1\n2\n3\nfour\n5\n6\n7\n8\n9\n");
+  });
+});
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { functionCall, message } from "./helpers/fakeResponsesApi.js";
+import { startHarness, type Harness } from "./helpers/harness.js";
+
+describe("usage accounting", () => {
+  let harness: Harness;
+
+  before(async () => {
+    // Each fake response uses 100 input / 50 output tokens: $0.0006 at o3 prices
+    harness = await startHarness({
+      env: { MAX_COST_PER_CONVERSATION_USD: "0.001" },
+    });
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  test("shows usage and cost at the end of the answer", async () => {
+    harness.api.enqueue([message("Hello.")]);
+
+    const text = await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "Hi",
+      conversation_id: "capped",
+    });
+
+    assert.match(
+      text,
+      /\*\*Usage:\*\* 1 stage\(s\), 100 input \(0 cached\) \/ 50 output \(20 reasoning\) tokens, \$0\.0006/
+    );
+  });
+
+  test("stops the tool loop when the conversation cap is reached", async () => {
+    harness.api.enqueue([functionCall("claude_ls", {}, "call_ls")]);
+    const requestCount = harness.api.requests.length;
+
+    const text = await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "List files",
+      conversation_id: "capped",
+    });
+
+    assert.match(text, /Stopped before stage 2: per-conversation spend cap of \$0\.001 reached/);
+    assert.equal(harness.api.requests.length, requestCount + 1);
+  });
+
+  test("reports usage by day and by conversation", async () => {
+    const report = await harness.callTool("usage-report", { conversation_id: "capped" });
+
+    assert.match(report, /## Usage by day\n\n- \d{4}-\d{2}-\d{2}: 2 turn\(s\), 200 input/);
+    assert.match(report, /- capped: 2 turn\(s\), 200 input .*\$0\.0012/);
+    assert.match(report, /Stage 1 \(o3, resp_1\): 100 in \/ 50 out \(20 reasoning\), \$0\.0006/);
+  });
+});
+
+describe("context summary usage", () => {
+  let harness: Harness;
+
+  before(async () => {
+    // Two $0.0006 turns stay under the cap; the summary for the third pushes
+    // the conversation over it
+    harness = await startHarness({
+      env: {
+        CONTEXT_SUMMARY_MODE: "llm",
+        CONVERSATION_CONTINUITY: "text",
+        CONTEXT_TOKEN_BUDGET: "200",
+        MAX_COST_PER_CONVERSATION_USD: "0.0015",
+      },
+    });
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  test("counts the summary call toward the turn's usage and the caps", async () => {
+    for (const input of ["x".repeat(1000), "Second question"]) {
+      harness.api.enqueue([message("Answer.")]);
+      await harness.callTool("ask-gpt-o3-extremely-smart", {
+        input,
+        conversation_id: "summarized",
+      });
+    }
+
+    harness.api.enqueue([message("The user asked about x.")]);
+    const requestCount = harness.api.requests.length;
+    const text = await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "Third question",
+      conversation_id: "summarized",
+    });
+
+    assert.match(text, /Stopped before stage 1: per-conversation spend cap of \$0\.0015 reached \(\$0\.0018 spent\)/);
+    assert.equal(harness.api.requests.length, requestCount + 1);
+
+    const report = await harness.callTool("usage-report", { conversation_id: "summarized" });
+    assert.match(report, /- summarized: 3 turn\(s\), 300 input .*\$0\.0018/);
+    assert.match(report, /Context summary \(o3, resp_3\): 100 in \/ 50 out \(20 reasoning\), \$0\.0006/);
+  });
+});
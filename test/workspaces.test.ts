@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { rmSync } from "fs";
+import path from "path";
+import { after, before, describe, test } from "node:test";
+import { functionCall, message } from "./helpers/fakeResponsesApi.js";
+import { createGitRepo, makeTempDir, startHarness, type Harness } from "./helpers/harness.js";
+
+describe("repo_path", () => {
+  let harness: Harness;
+  let apiRepo: string;
+  let webRepo: string;
+
+  before(async () => {
+    apiRepo = createGitRepo([
+      { "api.ts": "export const port = 80;\n" },
+      { "api.ts": "export const port = 8080;\n" },
+    ]);
+    webRepo = createGitRepo([
+      { "web.ts": "fetch('/v1');\n" },
+      { "web.ts": "fetch('/v2');\n" },
+    ]);
+    // The server itself runs in an unrelated repository
+    harness = await startHarness({ env: { TOOL_BACKEND: "native" } });
+  });
+
+  after(async () => {
+    await harness.close();
+    rmSync(apiRepo, { recursive: true, force: true });
+    rmSync(webRepo, { recursive: true, force: true });
+  });
+
+  test("runs the diff in the given repository", async () => {
+    harness.api.enqueue([message("The port changed.")]);
+
+    await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "What changed?",
+      repo_path: apiRepo,
+      from: "HEAD~1",
+      to: "HEAD",
+    });
+
+    const input = JSON.stringify(harness.api.requests.at(-1).input);
+    assert.match(input, /\+export const port = 8080;/);
+    assert.match(input, new RegExp(`git -C ${apiRepo} --no-pager diff`));
+  });
+
+  test("compares diffs across several repositories", async () => {
+    harness.api.enqueue([message("Both changed.")]);
+
+    await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "Do these changes fit together?",
+      repo_path: [apiRepo, webRepo],
+      from: "HEAD~1",
+      to: "HEAD",
+    });
+
+    const input = JSON.stringify(harness.api.requests.at(-1).input);
+    assert.match(input, new RegExp(`### Repository: ${apiRepo}.*port = 8080.*### Repository: ${webRepo}.*/v2`));
+    assert.match(input, new RegExp(`- ${apiRepo} \\(default\\)`));
+  });
+
+  test("points claude_ls and the git tools at the repositories", async () => {
+    harness.api.enqueue(
+      [
+        functionCall("claude_ls", {}, "call_ls"),
+        functionCall("git_log", { repo: webRepo }, "call_log"),
+      ],
+      [message("Done.")]
+    );
+
+    await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "Look around",
+      repo_path: [apiRepo, webRepo],
+    });
+
+    const [ls, log] = harness.api.requests.at(-1).input;
+    assert.match(ls.output, /api\.ts/);
+    assert.doesNotMatch(ls.output, /README\.md/);
+    assert.match(log.output, /commit 2/);
+  });
+
+  test("makes dry-run patches relative to the repository", async () => {
+    harness.api.enqueue(
+      [
+        functionCall(
+          "claude_edit",
+          { file_path: path.join(apiRepo, "api.ts"), old_string: "8080", new_string: "9090" },
+          "call_edit"
+        ),
+      ],
+      [message("Changed the port.")]
+    );
+
+    const text = await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "Change the port",
+      repo_path: apiRepo,
+      dry_run: true,
+    });
+
+    assert.match(text, /diff --git a\/api\.ts b\/api\.ts\n--- a\/api\.ts\n\+\+\+ b\/api\.ts/);
+  });
+
+  test("rejects git tool calls outside the request's repositories", async () => {
+    harness.api.enqueue(
+      [functionCall("git_log", { repo: webRepo }, "call_log")],
+      [message("Done.")]
+    );
+
+    await harness.callTool("ask-gpt-o3-extremely-smart", {
+      input: "Look around",
+      repo_path: apiRepo,
+    });
+
+    assert.match(
+      harness.api.requests.at(-1).input[0].output,
+      /is not one of this request's repositories/
+    );
+  });
+
+  test("rejects paths that are not git work trees", async () => {
+    const dir = makeTempDir("plain");
+    try {
+      const text = await harness.callTool("ask-gpt-o3-extremely-smart", {
+        input: "What changed?",
+        repo_path: dir,
+      });
+      assert.match(text, /^Error: repo_path is not inside a git work tree/);
+      assert.match(
+        await harness.callTool("ask-gpt-o3-extremely-smart", { input: "?", repo_path: "relative/dir" }),
+        /^Error: repo_path must be absolute/
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
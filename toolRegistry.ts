@@ -0,0 +1,173 @@
+import { z } from "zod";
+import type { ClaudeToolResult } from "./claudeTools.js";
+import type { FileOverlay } from "./fileOverlay.js";
+
+// Per-request state handed to tool implementations
+export interface ToolContext {
+  // Dry-run overlay; null when changes go to disk
+  overlay: FileOverlay | null;
+  // Repository roots from repo_path, the first being the default; empty
+  // means the server's working directory
+  workspaces: string[];
+  // Aborted when the MCP request or background job is cancelled
+  signal?: AbortSignal | undefined;
+}
+
+export interface RegisteredTool {
+  name: string;
+  description: string;
+  // Where the tool comes from: "claude" for the built-in claude_* tools,
+  // "git" for the read-only git tools, "mcp:<server>" for tools discovered on
+  // configured MCP servers
+  source: string;
+  // Whether the tool can change files or run commands
+  mutating: boolean;
+  // Whether the tool can work against a dry-run overlay
+  supportsDryRun: boolean;
+  // JSON Schema sent to OpenAI as the function parameters
+  parameters: Record<string, unknown>;
+  strict: boolean;
+  // Validate raw arguments; throws with a readable message when invalid
+  parseArguments(args: unknown): any;
+  execute(args: any, context: ToolContext): Promise<ClaudeToolResult>;
+}
+
+export interface ZodToolDefinition<T extends z.ZodRawShape> {
+  name: string;
+  description: string;
+  source?: string;
+  mutating?: boolean;
+  supportsDryRun?: boolean;
+  schema: z.ZodObject<T>;
+  execute(args: z.infer<z.ZodObject<T>>, context: ToolContext): Promise<ClaudeToolResult>;
+}
+
+type JsonSchema = Record<string, unknown>;
+
+// Convert the zod subset used by tool declarations into JSON Schema that is
+// valid for OpenAI strict mode: every property is required, optional ones
+// become nullable, and objects don't allow additional properties.
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const withDescription = (json: JsonSchema): JsonSchema =>
+    schema.description ? { ...json, description: schema.description } : json;
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    const inner = zodToJsonSchema(schema.unwrap());
+    const type = inner.type;
+    return withDescription({
+      ...inner,
+      type: Array.isArray(type) ? [...type, "null"] : [type, "null"],
+      ...(Array.isArray(inner.enum) && { enum: [...inner.enum, null] }),
+    });
+  }
+  if (schema instanceof z.ZodDefault) {
+    return withDescription(zodToJsonSchema(schema.removeDefault()));
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const properties: Record<string, JsonSchema> = {};
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = zodToJsonSchema(value);
+    }
+    return withDescription({
+      type: "object",
+      properties,
+      required: Object.keys(shape),
+      additionalProperties: false,
+    });
+  }
+  if (schema instanceof z.ZodArray) {
+    return withDescription({ type: "array", items: zodToJsonSchema(schema.element) });
+  }
+  if (schema instanceof z.ZodEnum) {
+    return withDescription({ type: "string", enum: [...schema.options] });
+  }
+  if (schema instanceof z.ZodString) {
+    return withDescription({ type: "string" });
+  }
+  if (schema instanceof z.ZodNumber) {
+    return withDescription({ type: schema.isInt ? "integer" : "number" });
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return withDescription({ type: "boolean" });
+  }
+  throw new Error(`Unsupported zod type in tool schema: ${schema.constructor.name}`);
+}
+
+// Strict mode sends null for omitted optional properties; zod expects undefined
+function stripNulls(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripNulls);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== null)
+        .map(([key, item]) => [key, stripNulls(item)])
+    );
+  }
+  return value;
+}
+
+export function defineTool<T extends z.ZodRawShape>(definition: ZodToolDefinition<T>): RegisteredTool {
+  return {
+    name: definition.name,
+    description: definition.description,
+    source: definition.source ?? "claude",
+    mutating: definition.mutating ?? false,
+    supportsDryRun: definition.supportsDryRun ?? !definition.mutating,
+    parameters: zodToJsonSchema(definition.schema),
+    strict: true,
+    parseArguments(args) {
+      const result = definition.schema.safeParse(stripNulls(args));
+      if (!result.success) {
+        const issues = result.error.issues
+          .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+          .join("; ");
+        throw new Error(`Invalid arguments for ${definition.name}: ${issues}`);
+      }
+      return result.data;
+    },
+    execute: definition.execute,
+  };
+}
+
+export class ToolRegistry {
+  private tools: Map<string, RegisteredTool> = new Map();
+
+  register(tool: RegisteredTool): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool "${tool.name}" is already registered`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  get(name: string): RegisteredTool | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): RegisteredTool[] {
+    return Array.from(this.tools.values());
+  }
+
+  names(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  // OpenAI Responses API function tool definitions
+  toFunctionTools(tools: RegisteredTool[] = this.list()): any[] {
+    return tools.map((tool) => ({
+      type: "function",
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+      strict: tool.strict,
+    }));
+  }
+
+  // Parse and validate a function call's arguments from o3
+  parseArguments(tool: RegisteredTool, argumentsStr: string): any {
+    if (!argumentsStr) {
+      throw new Error("function_call arguments が空です");
+    }
+    return tool.parseArguments(JSON.parse(argumentsStr));
+  }
+}
@@ -0,0 +1,141 @@
+// Line-based unified diff for showing proposed file changes to humans.
+// Common leading/trailing lines are trimmed first; the remaining middle part
+// is diffed with an LCS table, falling back to a plain replacement when it is
+// too large to diff cheaply.
+
+const CONTEXT_LINES = 3;
+const MAX_LCS_CELLS = 4_000_000;
+
+const NO_NEWLINE_MARKER = "\n\\ No newline at end of file";
+
+type DiffOp = { type: " " | "-" | "+"; line: string };
+
+// A last line without a newline carries git's marker, so it differs from the
+// same line with one and the marker is written after it in the diff
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += NO_NEWLINE_MARKER;
+  }
+  return lines;
+}
+
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const ops: DiffOp[] = oldLines.slice(0, start).map((line) => ({ type: " ", line }));
+  const oldMiddle = oldLines.slice(start, oldEnd);
+  const newMiddle = newLines.slice(start, newEnd);
+
+  if ((oldMiddle.length + 1) * (newMiddle.length + 1) > MAX_LCS_CELLS) {
+    ops.push(...oldMiddle.map((line): DiffOp => ({ type: "-", line })));
+    ops.push(...newMiddle.map((line): DiffOp => ({ type: "+", line })));
+  } else {
+    const n = oldMiddle.length;
+    const m = newMiddle.length;
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          oldMiddle[i] === newMiddle[j]
+            ? lcs[(i + 1) * width + j + 1]! + 1
+            : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldMiddle[i] === newMiddle[j]) {
+        ops.push({ type: " ", line: oldMiddle[i]! });
+        i++;
+        j++;
+      } else if (i < n && (j >= m || lcs[(i + 1) * width + j]! >= lcs[i * width + j + 1]!)) {
+        ops.push({ type: "-", line: oldMiddle[i]! });
+        i++;
+      } else {
+        ops.push({ type: "+", line: newMiddle[j]! });
+        j++;
+      }
+    }
+  }
+
+  ops.push(...oldLines.slice(oldEnd).map((line): DiffOp => ({ type: " ", line })));
+  return ops;
+}
+
+// Produce a git-style unified diff. `oldText` null means the file is new.
+export function createUnifiedDiff(
+  filePath: string,
+  oldText: string | null,
+  newText: string
+): string {
+  const ops = diffLines(splitLines(oldText ?? ""), splitLines(newText));
+  if (ops.every((op) => op.type === " ")) {
+    return "";
+  }
+
+  const relativePath = filePath.replace(/^\/+/, "");
+  let output = `diff --git a/${relativePath} b/${relativePath}\n`;
+  if (oldText === null) {
+    output += "new file mode 100644\n--- /dev/null\n";
+  } else {
+    output += `--- a/${relativePath}\n`;
+  }
+  output += `+++ b/${relativePath}\n`;
+
+  // Group changes into hunks with surrounding context
+  let index = 0;
+  while (index < ops.length) {
+    while (index < ops.length && ops[index]!.type === " ") index++;
+    if (index >= ops.length) break;
+
+    const hunkStart = Math.max(0, index - CONTEXT_LINES);
+    let hunkEnd = index;
+    let lastChange = index;
+    while (hunkEnd < ops.length) {
+      if (ops[hunkEnd]!.type !== " ") {
+        lastChange = hunkEnd;
+      } else if (hunkEnd - lastChange > CONTEXT_LINES * 2) {
+        break;
+      }
+      hunkEnd++;
+    }
+    hunkEnd = Math.min(ops.length, lastChange + CONTEXT_LINES + 1);
+
+    let oldStart = 1;
+    let newStart = 1;
+    for (const op of ops.slice(0, hunkStart)) {
+      if (op.type !== "+") oldStart++;
+      if (op.type !== "-") newStart++;
+    }
+    const hunk = ops.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter((op) => op.type !== "+").length;
+    const newCount = hunk.filter((op) => op.type !== "-").length;
+
+    output += `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${
+      newCount === 0 ? newStart - 1 : newStart
+    },${newCount} @@\n`;
+    output += hunk.map((op) => `${op.type}${op.line}`).join("\n") + "\n";
+
+    index = hunkEnd;
+  }
+
+  return output;
+}
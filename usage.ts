@@ -0,0 +1,191 @@
+import { readFileSync } from "fs";
+import type { ResponseUsage } from "openai/resources/responses/responses.js";
+
+export interface UsageTotals {
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  // Included in outputTokens; tracked separately because it drives o3 cost
+  reasoningTokens: number;
+  totalTokens: number;
+  // null when the model has no known price
+  costUsd: number | null;
+}
+
+export interface StageUsage extends UsageTotals {
+  stage: number;
+  responseId: string;
+  model: string;
+}
+
+// Model call that folded earlier turns into the rolling context summary
+export interface SummaryUsage extends UsageTotals {
+  responseId: string;
+  model: string;
+}
+
+export interface TurnUsage extends UsageTotals {
+  stages: StageUsage[];
+  // Summaries made while building this turn's context; included in the totals
+  summaries?: SummaryUsage[];
+}
+
+// USD per 1M tokens
+export interface ModelPrice {
+  input: number;
+  cachedInput?: number;
+  output: number;
+}
+
+export interface SpendCaps {
+  perConversationUsd: number | null;
+  perDayUsd: number | null;
+}
+
+// Default prices by model name prefix. Longer prefixes must come first.
+const DEFAULT_PRICES: Array<[string, ModelPrice]> = [
+  ["o3-pro", { input: 20, output: 80 }],
+  ["o3-mini", { input: 1.1, cachedInput: 0.55, output: 4.4 }],
+  ["o3", { input: 2, cachedInput: 0.5, output: 8 }],
+  ["o4-mini", { input: 1.1, cachedInput: 0.275, output: 4.4 }],
+  ["gpt-5-nano", { input: 0.05, cachedInput: 0.005, output: 0.4 }],
+  ["gpt-5-mini", { input: 0.25, cachedInput: 0.025, output: 2 }],
+  ["gpt-5", { input: 1.25, cachedInput: 0.125, output: 10 }],
+  ["gpt-4.1-nano", { input: 0.1, cachedInput: 0.025, output: 0.4 }],
+  ["gpt-4.1-mini", { input: 0.4, cachedInput: 0.1, output: 1.6 }],
+  ["gpt-4.1", { input: 2, cachedInput: 0.5, output: 8 }],
+  ["gpt-4o-mini", { input: 0.15, cachedInput: 0.075, output: 0.6 }],
+  ["gpt-4o", { input: 2.5, cachedInput: 1.25, output: 10 }],
+];
+
+export function emptyUsage(): UsageTotals {
+  return {
+    inputTokens: 0,
+    cachedInputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+  };
+}
+
+export function addUsage(target: UsageTotals, usage: UsageTotals): void {
+  target.inputTokens += usage.inputTokens;
+  target.cachedInputTokens += usage.cachedInputTokens;
+  target.outputTokens += usage.outputTokens;
+  target.reasoningTokens += usage.reasoningTokens;
+  target.totalTokens += usage.totalTokens;
+  // Once any part has an unknown price the total is unknown too
+  target.costUsd =
+    target.costUsd === null || usage.costUsd === null
+      ? null
+      : target.costUsd + usage.costUsd;
+}
+
+function parseNumberEnv(value: string | undefined): number | null {
+  const parsed = parseFloat(value || "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+export function loadSpendCaps(): SpendCaps {
+  return {
+    perConversationUsd: parseNumberEnv(process.env.MAX_COST_PER_CONVERSATION_USD),
+    perDayUsd: parseNumberEnv(process.env.MAX_COST_PER_DAY_USD),
+  };
+}
+
+// Price table: defaults, overridden by PRICE_TABLE_FILE and then PRICE_TABLE
+// (JSON objects of model name -> { input, cachedInput, output } in USD per 1M tokens)
+export function loadPriceTable(): Array<[string, ModelPrice]> {
+  const overrides: Array<[string, ModelPrice]> = [];
+
+  const sources: Array<[string, () => string]> = [];
+  if (process.env.PRICE_TABLE_FILE) {
+    const file = process.env.PRICE_TABLE_FILE;
+    sources.push([file, () => readFileSync(file, "utf-8")]);
+  }
+  if (process.env.PRICE_TABLE) {
+    const json = process.env.PRICE_TABLE;
+    sources.push(["PRICE_TABLE", () => json]);
+  }
+
+  for (const [name, read] of sources) {
+    try {
+      const prices = JSON.parse(read()) as Record<string, ModelPrice>;
+      // Later sources take precedence over earlier ones
+      overrides.unshift(...Object.entries(prices));
+    } catch (error) {
+      process.stderr.write(
+        `[DEBUG] Ignoring invalid price table ${name}: ${
+          error instanceof Error ? error.message : String(error)
+        }\n`
+      );
+    }
+  }
+
+  // Overrides take precedence over the default prefixes
+  return [...overrides, ...DEFAULT_PRICES];
+}
+
+export function findModelPrice(
+  priceTable: Array<[string, ModelPrice]>,
+  model: string
+): ModelPrice | null {
+  const exact = priceTable.find(([name]) => name === model);
+  if (exact) return exact[1];
+  const prefix = priceTable.find(([name]) => model.startsWith(name));
+  return prefix ? prefix[1] : null;
+}
+
+export function priceUsage(
+  usage: ResponseUsage | undefined,
+  price: ModelPrice | null
+): UsageTotals {
+  const inputTokens = usage?.input_tokens ?? 0;
+  const cachedInputTokens = usage?.input_tokens_details?.cached_tokens ?? 0;
+  const outputTokens = usage?.output_tokens ?? 0;
+  const reasoningTokens = usage?.output_tokens_details?.reasoning_tokens ?? 0;
+
+  const costUsd = price
+    ? ((inputTokens - cachedInputTokens) * price.input +
+        cachedInputTokens * (price.cachedInput ?? price.input) +
+        outputTokens * price.output) /
+      1_000_000
+    : null;
+
+  return {
+    inputTokens,
+    cachedInputTokens,
+    outputTokens,
+    reasoningTokens,
+    totalTokens: usage?.total_tokens ?? inputTokens + outputTokens,
+    costUsd,
+  };
+}
+
+export function formatCost(costUsd: number | null): string {
+  return costUsd === null ? "unknown cost" : `$${costUsd.toFixed(4)}`;
+}
+
+export function formatUsage(usage: UsageTotals): string {
+  return `${usage.inputTokens.toLocaleString("en-US")} input (${usage.cachedInputTokens.toLocaleString("en-US")} cached) / ${usage.outputTokens.toLocaleString("en-US")} output (${usage.reasoningTokens.toLocaleString("en-US")} reasoning) tokens, ${formatCost(usage.costUsd)}`;
+}
+
+// Returns why the loop must stop, or null while under the caps
+export function checkSpendCaps(
+  caps: SpendCaps,
+  conversationCostUsd: number,
+  dailyCostUsd: number
+): string | null {
+  if (caps.perConversationUsd !== null && conversationCostUsd >= caps.perConversationUsd) {
+    return `per-conversation spend cap of $${caps.perConversationUsd} reached ($${conversationCostUsd.toFixed(4)} spent)`;
+  }
+  if (caps.perDayUsd !== null && dailyCostUsd >= caps.perDayUsd) {
+    return `daily spend cap of $${caps.perDayUsd} reached ($${dailyCostUsd.toFixed(4)} spent today)`;
+  }
+  return null;
+}
+
+export function usageDay(timestamp: Date | string = new Date()): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
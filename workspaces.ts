@@ -0,0 +1,60 @@
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import path from "path";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+// The repositories a request works on (repo_path). Diffs, git tools,
+// claude_ls and claude_grep run in them instead of the server's working
+// directory, which is wherever the MCP host started the server.
+
+// Validate that repoPath is an existing git work tree and return its root
+export async function resolveWorkspace(repoPath: string): Promise<string> {
+  if (!path.isAbsolute(repoPath)) {
+    throw new Error(`repo_path must be absolute: ${repoPath}`);
+  }
+  let stat;
+  try {
+    stat = await fs.stat(repoPath);
+  } catch {
+    throw new Error(`repo_path does not exist: ${repoPath}`);
+  }
+  if (!stat.isDirectory()) {
+    throw new Error(`repo_path is not a directory: ${repoPath}`);
+  }
+  try {
+    const { stdout } = await execFileAsync("git", ["rev-parse", "--show-toplevel"], {
+      cwd: repoPath,
+    });
+    return path.resolve(stdout.trim());
+  } catch {
+    throw new Error(`repo_path is not inside a git work tree: ${repoPath}`);
+  }
+}
+
+// Resolve repo_path values to distinct repository roots, in the given order
+export async function resolveWorkspaces(repoPaths: string[]): Promise<string[]> {
+  const roots: string[] = [];
+  for (const repoPath of repoPaths) {
+    const root = await resolveWorkspace(repoPath);
+    if (!roots.includes(root)) roots.push(root);
+  }
+  return roots;
+}
+
+// Pick the repository a tool call runs in: the one it names, which must be
+// one of the request's repositories, or the request's first repository
+export function selectWorkspace(workspaces: string[], repo?: string): string {
+  if (!repo) return workspaces[0] ?? process.cwd();
+  const resolved = path.resolve(repo);
+  const match = workspaces.find((root) => root === resolved);
+  if (!match) {
+    throw new Error(
+      workspaces.length > 0
+        ? `${repo} is not one of this request's repositories (${workspaces.join(", ")})`
+        : `${repo} is not one of this request's repositories; pass it in repo_path`
+    );
+  }
+  return match;
+}